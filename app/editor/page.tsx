@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import LevelEditor from '../../components/LevelEditor';
+
+export const metadata: Metadata = {
+  title: 'Level Editor | Color Burst',
+};
+
+export default function EditorPage() {
+  return <LevelEditor />;
+}
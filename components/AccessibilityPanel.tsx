@@ -0,0 +1,53 @@
+"use client";
+import { BASE_COLORS } from '../lib/levels';
+import { COLOR_GLYPHS, EFFECTS_LABELS, PALETTE_LABELS } from '../lib/accessibility';
+import type { AccessibilitySettings, EffectsQuality, MotionPreference, PaletteName } from '../lib/accessibility';
+import { PALETTES } from './render';
+
+interface Props {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+}
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: 'Follow system setting', reduce: 'Reduce motion', full: 'Full motion',
+};
+
+export default function AccessibilityPanel({ settings, onChange }: Props) {
+  const update = <K extends keyof AccessibilitySettings>(key: K, value: AccessibilitySettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="card records">
+      <div className="title">Accessibility</div>
+      <label className="field">Bubble colors
+        <select className="select" value={settings.palette} onChange={e => update('palette', e.target.value as PaletteName)}>
+          {(Object.keys(PALETTE_LABELS) as PaletteName[]).map(p => <option key={p} value={p}>{PALETTE_LABELS[p]}</option>)}
+        </select>
+      </label>
+      <div className="legend">
+        {BASE_COLORS.map(color => (
+          <span key={color} className="chip">
+            <span className="color" style={{ background: PALETTES[settings.palette][color] }} />
+            {settings.glyphs && COLOR_GLYPHS[color]} {color}
+          </span>
+        ))}
+      </div>
+      <label className="check">
+        <input type="checkbox" checked={settings.glyphs} onChange={e => update('glyphs', e.target.checked)} /> Shape on every bubble
+      </label>
+      <label className="field">Motion
+        <select className="select" value={settings.motion} onChange={e => update('motion', e.target.value as MotionPreference)}>
+          {(Object.keys(MOTION_LABELS) as MotionPreference[]).map(m => <option key={m} value={m}>{MOTION_LABELS[m]}</option>)}
+        </select>
+      </label>
+      <label className="field">Effects
+        <select className="select" value={settings.effects} onChange={e => update('effects', e.target.value as EffectsQuality)}>
+          {(Object.keys(EFFECTS_LABELS) as EffectsQuality[]).map(q => <option key={q} value={q}>{EFFECTS_LABELS[q]}</option>)}
+        </select>
+      </label>
+      <label className="check">
+        <input type="checkbox" checked={settings.announce} onChange={e => update('announce', e.target.checked)} /> Announce matches, drops and results to screen readers
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+import type { AudioMix } from '../lib/audio';
+
+interface Props {
+  mix: AudioMix;
+  onChange: (mix: AudioMix) => void;
+}
+
+const CHANNELS: { key: 'master' | 'sfx' | 'music'; label: string }[] = [
+  { key: 'master', label: 'Master volume' },
+  { key: 'sfx', label: 'Effects volume' },
+  { key: 'music', label: 'Music volume' },
+];
+
+export default function AudioPanel({ mix, onChange }: Props) {
+  return (
+    <div className="card records">
+      <div className="title">Sound</div>
+      {CHANNELS.map(({ key, label }) => (
+        <label key={key} className="field">{label}: {Math.round(mix[key] * 100)}%
+          <input type="range" min={0} max={100} value={Math.round(mix[key] * 100)} onChange={e => onChange({ ...mix, [key]: Number(e.target.value) / 100 })} />
+        </label>
+      ))}
+      <label className="check">
+        <input type="checkbox" checked={mix.muted} onChange={e => onChange({ ...mix, muted: e.target.checked })} /> Mute everything
+      </label>
+    </div>
+  );
+}
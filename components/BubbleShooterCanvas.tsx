@@ -1,610 +1,247 @@
 "use client";
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { Bubble, BubbleColor, BubbleKind, LevelConfig, PowerupState } from '../lib/types';
-import { BASE_COLORS, LEVELS } from '../lib/levels';
-import { playCombo, playLose, playPop } from '../lib/audio';
+import { useEffect, useRef, useState } from 'react';
+import type { LevelConfig } from '../lib/types';
+import {
+  BUBBLE_RADIUS, DEFAULT_HINTS, MAX_FRAME_SEC, TICK_SEC, createEngine, dangerProximity, hintsLeft, shooterOrigin, step,
+} from '../lib/engine';
+import type { EngineEvent, EngineInput, EngineState } from '../lib/engine';
+import type { EventBus } from '../lib/events';
+import type { GarbageInbox } from '../lib/versus';
+import type { Recorder } from '../lib/replay';
+import { DEFAULT_BINDINGS, createInputController } from '../lib/input';
+import type { InputBindings, InputController } from '../lib/input';
+import { playEventSound } from '../lib/sfx';
+import { setMusicPlaying, setMusicTension } from '../lib/audio';
+import { DEFAULT_BUBBLE_STYLE, drawFrame } from './render';
+import type { BubbleStyle } from './render';
+import { addEventEffects, appearScale, createEffects, drawEffects, shakeOffset, updateEffects } from './effects';
+import type { Effects } from './effects';
+import { fitCanvas, toBoard } from './viewport';
+import type { Viewport } from './viewport';
+import type { EffectsQuality } from '../lib/accessibility';
 
 interface Props {
   level: LevelConfig;
+  seed: number;
   lives: number;
-  muted: boolean;
-  onWin: (levelScore: number) => void;
-  onLoseLife: () => void;
-  onShot: () => void;
-  onCombo: () => void;
+  recorder?: Recorder;
+  bindings?: InputBindings;
+  gamepad?: number; // only this pad drives the board; any pad by default
+  bubbleStyle?: BubbleStyle;
+  effects?: EffectsQuality;
+  reducedMotion?: boolean;
+  paused?: boolean; // stops the simulation clock; the board stays drawn
+  garbage?: GarbageInbox; // rows sent over by a versus opponent
+  music?: boolean; // off for a second board sharing the screen
+  bus: EventBus; // every engine event is published here; the owner subscribes for game flow, announcements and telemetry
 }
 
-// Visual palette mapping
-const COLOR_TO_HEX: Record<BubbleColor, string> = {
-  red: '#ef4444', blue: '#3b82f6', green: '#22c55e', yellow: '#eab308',
-  purple: '#a855f7', orange: '#fb923c', cyan: '#06b6d4', pink: '#ec4899', gray: '#475569'
-};
+// A touch that travels further than this is an aim drag, not a tap
+const TAP_SLOP_PX = 12;
 
-// Grid constants
-const BUBBLE_RADIUS = 16;
-const BUBBLE_DIAMETER = BUBBLE_RADIUS * 2;
-const ROW_V_SPACING = Math.sqrt(3) * BUBBLE_RADIUS * 0.98; // hex vertical spacing
-const COL_H_SPACING = BUBBLE_DIAMETER * 0.98;
-const MAX_COLS = 12;
-const MAX_ROWS = 18;
-
-// Shooter
-const SHOOT_SPEED = 520; // px/s
-const MAX_AIM_BOUNCES = 6;
-
-// Utility
-function randId() { return Math.random().toString(36).slice(2, 9); }
-function clamp(n: number, a: number, b: number) { return Math.max(a, Math.min(b, n)); }
-
-export default function BubbleShooterCanvas({ level, lives, muted, onWin, onLoseLife, onShot, onCombo }: Props) {
-  const wrapRef = useRef<HTMLDivElement>(null);
+export default function BubbleShooterCanvas({
+  level, seed, lives, recorder, bindings = DEFAULT_BINDINGS, bubbleStyle = DEFAULT_BUBBLE_STYLE,
+  effects = 'high', reducedMotion = false, paused = false, gamepad, garbage, music = true, bus,
+}: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rafRef = useRef<number | null>(null);
-  const [dimensions, setDimensions] = useState({ w: 600, h: 800 });
-  const [aimAngle, setAimAngle] = useState(-Math.PI / 2);
-  const [reducedAim, setReducedAim] = useState(!!level.reducedAim);
-
-  // Game state
-  const gridRef = useRef<(Bubble | null)[][]>([]);
-  const movingRef = useRef<Bubble | null>(null);
-  const dirRef = useRef<{ dx: number; dy: number } | null>(null);
-  const scoreRef = useRef(0);
-  const comboChainRef = useRef(0);
-  const descentOffsetRef = useRef(0);
-  const startMsRef = useRef<number | null>(null);
-  const powerRef = useRef<PowerupState>({ freezeUntil: 0, aimBoostUntil: 0 });
-  const nextQueueRef = useRef<BubbleKind[]>([]);
-
-  const colors = useMemo(() => BASE_COLORS.slice(0, level.colorsCount), [level.colorsCount]);
-
-  const computeGridSize = useCallback((w: number, h: number) => {
-    const cols = Math.min(MAX_COLS, Math.max(8, Math.floor(w / COL_H_SPACING)));
-    const rows = MAX_ROWS; // logical rows; canvas height defines how many visible
-    return { cols, rows };
-  }, []);
-
-  const gridToXY = useCallback((row: number, col: number, w: number) => {
-    const { cols } = computeGridSize(w, dimensions.h);
-    const rowOffset = (row % 2 === 0) ? 0 : COL_H_SPACING / 2;
-    const x = rowOffset + BUBBLE_RADIUS + col * COL_H_SPACING;
-    const y = BUBBLE_RADIUS + row * ROW_V_SPACING - descentOffsetRef.current;
-    return { x, y };
-  }, [computeGridSize, dimensions.h]);
-
-  const xyToGridGuess = useCallback((x: number, y: number, w: number) => {
-    const row = Math.round((y + descentOffsetRef.current - BUBBLE_RADIUS) / ROW_V_SPACING);
-    const rowOffset = (row % 2 === 0) ? 0 : COL_H_SPACING / 2;
-    const col = Math.round((x - rowOffset - BUBBLE_RADIUS) / COL_H_SPACING);
-    return { row, col };
-  }, []);
-
-  const initGrid = useCallback((w: number, h: number) => {
-    const { cols, rows } = computeGridSize(w, h);
-    const grid: (Bubble | null)[][] = Array.from({ length: rows }, () => Array(cols).fill(null));
-
-    // Seed top rows based on pattern
-    function seedColor(): BubbleColor {
-      return colors[Math.floor(Math.random() * colors.length)];
-    }
-
-    const topRows = level.doubleLayer ? 8 : 6;
-    for (let r = 0; r < topRows; r++) {
-      for (let c = 0; c < cols - (r % 2 === 1 ? 1 : 0); c++) {
-        const kind: BubbleKind = 'normal';
-        const color: BubbleColor = seedColor();
-        const { x, y } = gridToXY(r, c, w);
-        if (level.startingPattern === 'simple' && r > 3) continue;
-        if (level.startingPattern === 'alternating' && (r + c) % 2 === 1) continue;
-        if (level.startingPattern === 'random' && Math.random() < 0.25) continue;
-        grid[r][c] = { id: randId(), row: r, col: c, x, y, color, kind, stationary: true };
-      }
-    }
-
-    // Unbreakable gray obstacles
-    let placedGray = 0;
-    while (placedGray < level.unbreakableGrayCount) {
-      const r = Math.floor(Math.random() * Math.min(topRows + 4, rows));
-      const c = Math.floor(Math.random() * (cols - (r % 2 === 1 ? 1 : 0)));
-      if (!grid[r][c]) {
-        const { x, y } = gridToXY(r, c, w);
-        grid[r][c] = { id: randId(), row: r, col: c, x, y, color: 'gray', kind: 'normal', stationary: true };
-        placedGray++;
-      }
-    }
-
-    gridRef.current = grid;
-  }, [colors, computeGridSize, gridToXY, level.doubleLayer, level.startingPattern, level.unbreakableGrayCount]);
-
-  const refillNextQueue = useCallback(() => {
-    const q: BubbleKind[] = [];
-    // Mix a small chance of power-ups based on level
-    for (let i = 0; i < 3; i++) {
-      const roll = Math.random();
-      if (level.rainbowEnabled && roll < 0.08) q.push('rainbow');
-      else if (roll < 0.11) q.push('bomb');
-      else if (roll < 0.135) q.push('freeze');
-      else if (roll < 0.16) q.push('aim');
-      else q.push('normal');
-    }
-    nextQueueRef.current = q;
-  }, [level.rainbowEnabled]);
-
-  const currentShooterBubble = useMemo(() => {
-    const kind = nextQueueRef.current[0] ?? 'normal';
-    return { kind };
-  }, [dimensions.w]);
-
-  const addNewDescendingRow = useCallback((w: number, h: number) => {
-    const grid = gridRef.current;
-    const { cols } = computeGridSize(w, h);
-    // shift all rows down (implicit via descentOffset), but periodically add a new top row
-    // Create new row at virtual row 0 positions
-    const newRowIndex = 0;
-    const newRow: (Bubble | null)[] = Array(cols).fill(null);
-    for (let c = 0; c < cols - (newRowIndex % 2 === 1 ? 1 : 0); c++) {
-      const useRandomColor = Math.random() < level.randomColorChance;
-      const color: BubbleColor = useRandomColor ? BASE_COLORS[Math.floor(Math.random() * BASE_COLORS.length)] : (colors[Math.floor(Math.random() * colors.length)] as BubbleColor);
-      const { x, y } = gridToXY(0, c, w);
-      newRow[c] = { id: randId(), row: 0, col: c, x, y, color, kind: 'normal', stationary: true };
-    }
-    // push existing bubbles down one row index (logical)
-    for (let r = grid.length - 1; r >= 0; r--) {
-      for (let c = 0; c < grid[r].length; c++) {
-        const b = grid[r][c];
-        if (b) b.row = b.row + 1;
-      }
-    }
-    grid.unshift(newRow);
-    grid.pop();
-  }, [colors, computeGridSize, gridToXY, level.randomColorChance]);
-
-  const neighbors = useCallback((r: number, c: number, w: number) => {
-    const grid = gridRef.current;
-    const res: { r: number; c: number; b: Bubble | null }[] = [];
-    const { cols } = computeGridSize(w, dimensions.h);
-    const odd = r % 2 === 1;
-    const candidates = [
-      [r, c - 1], [r, c + 1],
-      [r - 1, c + (odd ? 0 : -1)], [r - 1, c + (odd ? 1 : 0)],
-      [r + 1, c + (odd ? 0 : -1)], [r + 1, c + (odd ? 1 : 0)],
-    ];
-    for (const [rr, cc] of candidates) {
-      if (rr < 0 || rr >= grid.length) continue;
-      if (cc < 0 || cc >= cols - (rr % 2 === 1 ? 1 : 0)) continue;
-      res.push({ r: rr, c: cc, b: grid[rr][cc] });
-    }
-    return res;
-  }, [computeGridSize, dimensions.h]);
-
-  const floodMatch = useCallback((r: number, c: number, targetColor: BubbleColor, w: number) => {
-    const grid = gridRef.current;
-    const visited = new Set<string>();
-    const res: { r: number; c: number }[] = [];
-    const key = (rr: number, cc: number) => rr + ':' + cc;
-    const stack: { r: number; c: number }[] = [{ r, c }];
-    while (stack.length) {
-      const cur = stack.pop()!;
-      if (visited.has(key(cur.r, cur.c))) continue;
-      visited.add(key(cur.r, cur.c));
-      const b = grid[cur.r][cur.c];
-      if (!b) continue;
-      const isRainbow = b.kind === 'rainbow';
-      if (b.color === targetColor || isRainbow) {
-        res.push(cur);
-        const nbrs = neighbors(cur.r, cur.c, w);
-        for (const n of nbrs) {
-          if (!n.b) continue;
-          const nbRainbow = n.b.kind === 'rainbow';
-          if (n.b.color === targetColor || nbRainbow) stack.push({ r: n.r, c: n.c });
-        }
-      }
-    }
-    return res;
-  }, [neighbors]);
-
-  const removeDisconnected = useCallback((w: number) => {
-    // Remove any bubbles not connected to top row (floating)
-    const grid = gridRef.current;
-    const { cols } = computeGridSize(w, dimensions.h);
-    const visited = new Set<string>();
-    const key = (rr: number, cc: number) => rr + ':' + cc;
-    const stack: { r: number; c: number }[] = [];
-    for (let c = 0; c < cols; c++) {
-      if (grid[0]?.[c]) stack.push({ r: 0, c });
-    }
-    while (stack.length) {
-      const cur = stack.pop()!;
-      if (visited.has(key(cur.r, cur.c))) continue;
-      visited.add(key(cur.r, cur.c));
-      const b = grid[cur.r][cur.c];
-      if (!b) continue;
-      for (const n of neighbors(cur.r, cur.c, w)) {
-        if (n.b && !visited.has(key(n.r, n.c)) && n.b.color !== 'gray') stack.push({ r: n.r, c: n.c });
-      }
-    }
-    let dropCount = 0;
-    for (let r = 0; r < grid.length; r++) {
-      const row = grid[r];
-      for (let c = 0; c < row.length; c++) {
-        const b = row[c];
-        if (b && b.color !== 'gray' && !visited.has(key(r, c))) {
-          row[c] = null;
-          dropCount++;
-        }
-      }
-    }
-    if (dropCount > 0 && !muted) playCombo(Math.min(5, 1 + Math.floor(dropCount / 3)));
-    return dropCount;
-  }, [computeGridSize, dimensions.h, neighbors, muted]);
-
-  const placeBubbleAt = useCallback((row: number, col: number, b: Bubble, w: number) => {
-    const grid = gridRef.current;
-    if (row < 0) row = 0;
-    if (row >= grid.length) row = grid.length - 1;
-    const maxCols = computeGridSize(w, dimensions.h).cols - (row % 2 === 1 ? 1 : 0);
-    if (col < 0) col = 0;
-    if (col >= maxCols) col = maxCols - 1;
-    if (grid[row][col]) return false;
-    const { x, y } = gridToXY(row, col, w);
-    b.row = row; b.col = col; b.x = x; b.y = y; b.stationary = true;
-    grid[row][col] = b;
-    return true;
-  }, [computeGridSize, dimensions.h, gridToXY]);
-
-  const trySnapAndResolve = useCallback((b: Bubble, w: number, h: number) => {
-    // Snap near collision point
-    const guess = xyToGridGuess(b.x, b.y, w);
-    const candidates = [
-      { r: guess.row, c: guess.col },
-      { r: guess.row, c: guess.col - 1 },
-      { r: guess.row, c: guess.col + 1 },
-      { r: guess.row - 1, c: guess.col },
-      { r: guess.row + 1, c: guess.col },
-      { r: guess.row - 1, c: guess.col - 1 },
-      { r: guess.row + 1, c: guess.col + 1 },
-    ];
-    let placed = false;
-    for (const cand of candidates) {
-      if (placeBubbleAt(cand.r, cand.c, b, w)) { placed = true; break; }
-    }
-    if (!placed) return;
-
-    // Resolve special kinds
-    if (b.kind === 'bomb') {
-      // Remove neighbors within distance 2 (grid steps)
-      const around = new Set<string>();
-      const queue = [{ r: b.row, c: b.col, d: 0 }];
-      const seen = new Set<string>();
-      const key = (r: number, c: number) => r + ':' + c;
-      while (queue.length) {
-        const cur = queue.shift()!;
-        if (cur.d > 2) continue;
-        const k = key(cur.r, cur.c);
-        if (seen.has(k)) continue;
-        seen.add(k);
-        around.add(k);
-        for (const n of neighbors(cur.r, cur.c, w)) {
-          queue.push({ r: n.r, c: n.c, d: cur.d + 1 });
-        }
-      }
-      let removed = 0;
-      const grid = gridRef.current;
-      for (const k of around) {
-        const [rr, cc] = k.split(':').map(Number);
-        const bb = grid[rr]?.[cc];
-        if (bb && bb.color !== 'gray') { grid[rr][cc] = null; removed++; }
-      }
-      if (removed > 0 && !muted) playPop(Math.min(1.5, 0.5 + removed * 0.1));
-      removeDisconnected(w);
-      return;
-    }
-    if (b.kind === 'freeze') {
-      powerRef.current.freezeUntil = Date.now() + 5000;
-      // remove itself for fairness
-      gridRef.current[b.row][b.col] = null;
-      if (!muted) playPop(1);
-      return;
-    }
-    if (b.kind === 'aim') {
-      powerRef.current.aimBoostUntil = Date.now() + 6000;
-      gridRef.current[b.row][b.col] = null;
-      if (!muted) playPop(1);
-      return;
-    }
-
-    // Normal or rainbow matching
-    const targetColor = b.color;
-    const group = floodMatch(b.row, b.col, targetColor, w);
-    if (group.length >= 3) {
-      // Remove matched
-      const grid = gridRef.current;
-      for (const cell of group) {
-        grid[cell.r][cell.c] = null;
-      }
-      scoreRef.current += 10 * group.length;
-      comboChainRef.current += 1;
-      !muted && playPop(Math.min(1.5, 0.6 + group.length * 0.05));
-      const dropped = removeDisconnected(w);
-      if (dropped > 0) {
-        scoreRef.current += 5 * dropped;
-        onCombo();
-      }
-    } else {
-      comboChainRef.current = 0;
-    }
-  }, [floodMatch, muted, neighbors, onCombo, placeBubbleAt, removeDisconnected, xyToGridGuess]);
+  // Last transform the board was drawn with; pointer input maps back through it
+  const viewRef = useRef<Viewport>({ scale: 1, offsetX: 0, offsetY: 0 });
+  const [hints, setHints] = useState(level.hints ?? DEFAULT_HINTS); // left this level, for the button
+  const [wave, setWave] = useState(1); // endless runs only
+
+  // Game state lives in the engine; the component only renders it and forwards input
+  const engineRef = useRef<EngineState | null>(null);
+  const inputRef = useRef<EngineInput>({});
+  const controllerRef = useRef<InputController | null>(null);
+  const livesRef = useRef(lives);
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  // Music runs while the board is live; its tempo follows the danger line in the loop below
+  useEffect(() => {
+    if (!music) return;
+    setMusicPlaying(!paused);
+    return () => setMusicPlaying(false);
+  }, [music, paused]);
+  // Pops, falls and shake run on their own list; the engine stays the only source of game state
+  const effectsRef = useRef<Effects>(createEffects(effects, reducedMotion));
 
-  const shoot = useCallback((w: number, h: number) => {
-    if (movingRef.current) return;
-    const kind = nextQueueRef.current.shift() ?? 'normal';
-    if (nextQueueRef.current.length < 2) refillNextQueue();
+  useEffect(() => {
+    effectsRef.current.quality = effects;
+    effectsRef.current.reducedMotion = reducedMotion;
+  }, [effects, reducedMotion]);
 
-    const color: BubbleColor = (kind === 'rainbow' || kind === 'bomb' || kind === 'freeze' || kind === 'aim')
-      ? colors[Math.floor(Math.random() * colors.length)] as BubbleColor
-      : colors[Math.floor(Math.random() * colors.length)] as BubbleColor;
+  useEffect(() => {
+    livesRef.current = lives;
+    if (!engineRef.current) return;
+    engineRef.current.lives = lives;
+    recorder?.setLives(lives);
+  }, [lives, recorder]);
 
-    const sx = w / 2;
-    const sy = h - BUBBLE_RADIUS - 8;
-    const dx = Math.cos(aimAngle);
-    const dy = Math.sin(aimAngle);
-    movingRef.current = { id: randId(), row: -1, col: -1, x: sx, y: sy, color, kind, stationary: false };
-    dirRef.current = { dx, dy };
-    onShot();
-  }, [aimAngle, colors, onShot, refillNextQueue]);
+  // Keyboard and gamepad go through the shared input layer; pointer input is handled below
+  useEffect(() => {
+    const controller = createInputController(bindings, gamepad);
+    controllerRef.current = controller;
+    return () => {
+      controller.dispose();
+      controllerRef.current = null;
+    };
+  }, [bindings, gamepad]);
 
-  // Input handling
+  // Pointer handling
   useEffect(() => {
     const canvas = canvasRef.current!;
-    const onMove = (e: MouseEvent) => {
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-      const ang = Math.atan2(y - (canvas.height - BUBBLE_RADIUS - 8), x - (canvas.width / 2));
-      const clamped = clamp(ang, -Math.PI + 0.1, -0.1);
-      setAimAngle(clamped);
+    const aimAt = (clientX: number, clientY: number) => {
+      const engine = engineRef.current;
+      if (!engine) return;
+      const p = toBoard(viewRef.current, canvas, clientX, clientY);
+      const origin = shooterOrigin(engine);
+      inputRef.current.aimAngle = Math.atan2(p.y - origin.y, p.x - origin.x);
+    };
+    const onMove = (e: MouseEvent) => aimAt(e.clientX, e.clientY);
+    let touchStart: { x: number; y: number; dragged: boolean } | null = null;
+    const onTouchStart = (e: TouchEvent) => {
+      const t = e.touches[0];
+      if (!t) return;
+      touchStart = { x: t.clientX, y: t.clientY, dragged: false };
+      aimAt(t.clientX, t.clientY);
     };
     const onTouch = (e: TouchEvent) => {
-      if (!e.touches[0]) return;
-      const rect = canvas.getBoundingClientRect();
-      const x = e.touches[0].clientX - rect.left;
-      const y = e.touches[0].clientY - rect.top;
-      const ang = Math.atan2(y - (canvas.height - BUBBLE_RADIUS - 8), x - (canvas.width / 2));
-      const clamped = clamp(ang, -Math.PI + 0.1, -0.1);
-      setAimAngle(clamped);
+      const t = e.touches[0];
+      if (!t) return;
+      if (touchStart && Math.hypot(t.clientX - touchStart.x, t.clientY - touchStart.y) > TAP_SLOP_PX) touchStart.dragged = true;
+      aimAt(t.clientX, t.clientY);
+    };
+    // Pressing on the loaded shot swaps it with the next one instead of firing
+    const press = (clientX: number, clientY: number) => {
+      const engine = engineRef.current;
+      if (!engine) return;
+      const p = toBoard(viewRef.current, canvas, clientX, clientY);
+      const origin = shooterOrigin(engine);
+      const onShooter = Math.hypot(p.x - origin.x, p.y - origin.y) <= BUBBLE_RADIUS * 1.5;
+      if (onShooter) inputRef.current.swap = true;
+      else inputRef.current.shoot = true;
+    };
+    const onClick = (e: MouseEvent) => press(e.clientX, e.clientY);
+    // Only a tap fires; lifting the finger after dragging just leaves the aim where it is
+    const onTouchEnd = (e: TouchEvent) => {
+      e.preventDefault(); // suppress the emulated click so a tap is handled once
+      const t = e.changedTouches[0];
+      const tapped = !!touchStart && !touchStart.dragged;
+      touchStart = null;
+      if (t && tapped) press(t.clientX, t.clientY);
+    };
+    const onContextMenu = (e: MouseEvent) => {
+      e.preventDefault();
+      inputRef.current.swap = true;
     };
-    const onClick = () => shoot(canvas.width, canvas.height);
     canvas.addEventListener('mousemove', onMove);
+    canvas.addEventListener('touchstart', onTouchStart, { passive: true });
     canvas.addEventListener('touchmove', onTouch, { passive: true });
     canvas.addEventListener('click', onClick);
-    canvas.addEventListener('touchend', onClick);
+    canvas.addEventListener('touchend', onTouchEnd);
+    canvas.addEventListener('contextmenu', onContextMenu);
     return () => {
       canvas.removeEventListener('mousemove', onMove);
+      canvas.removeEventListener('touchstart', onTouchStart);
       canvas.removeEventListener('touchmove', onTouch);
       canvas.removeEventListener('click', onClick);
-      canvas.removeEventListener('touchend', onClick);
+      canvas.removeEventListener('touchend', onTouchEnd);
+      canvas.removeEventListener('contextmenu', onContextMenu);
     };
-  }, [shoot]);
-
-  // Resize observer
-  useEffect(() => {
-    const el = wrapRef.current!;
-    const ro = new ResizeObserver(entries => {
-      const cr = entries[0].contentRect;
-      const w = Math.floor(cr.width);
-      const h = Math.floor(cr.height);
-      setDimensions({ w, h });
-    });
-    ro.observe(el);
-    return () => ro.disconnect();
   }, []);
 
-  // Init grid + next queue
+  // The board has a fixed logical size, so only a new level or seed starts a new one; resizing just rescales the drawing
   useEffect(() => {
-    refillNextQueue();
-  }, [refillNextQueue]);
-
-  useEffect(() => {
-    initGrid(dimensions.w, dimensions.h);
-    scoreRef.current = 0;
-    comboChainRef.current = 0;
-    descentOffsetRef.current = 0;
-    startMsRef.current = Date.now();
-  }, [dimensions.h, dimensions.w, initGrid, level]);
+    engineRef.current = createEngine(level, seed, livesRef.current);
+    setHints(hintsLeft(engineRef.current));
+    setWave(engineRef.current.wave);
+    inputRef.current = {};
+    recorder?.begin(livesRef.current);
+  }, [level, recorder, seed]);
 
   // Main loop
   useEffect(() => {
     const canvas = canvasRef.current!;
     const ctx = canvas.getContext('2d')!;
 
+    const handleEvent = (e: EngineEvent) => {
+      playEventSound(e);
+      addEventEffects(effectsRef.current, e, engineRef.current!);
+      const engine = engineRef.current!;
+      if (e.type === 'hint') setHints(e.left);
+      if (e.type === 'wave') setWave(e.wave);
+      bus.emit({ ...e, level: level.level, seed: engine.seed, timeMs: engine.timeMs });
+    };
+
     let last = performance.now();
+    let acc = 0;
 
     const loop = (now: number) => {
-      const dt = Math.min(0.033, (now - last) / 1000);
+      // No time passes while paused, so descent, the level timer and power-up timers all hold
+      const frameSec = pausedRef.current ? 0 : Math.min(MAX_FRAME_SEC, (now - last) / 1000);
+      acc += frameSec;
       last = now;
-
-      // Update descent
-      const frozen = Date.now() < powerRef.current.freezeUntil;
-      const descent = (frozen ? level.descentSpeed * 0.35 : level.descentSpeed) * dt;
-      descentOffsetRef.current += descent;
-
-      const addRowThreshold = ROW_V_SPACING;
-      if (descentOffsetRef.current > addRowThreshold) {
-        descentOffsetRef.current -= addRowThreshold;
-        addNewDescendingRow(canvas.width, canvas.height);
-      }
-
-      // Update moving bubble
-      const moving = movingRef.current;
-      if (moving && dirRef.current) {
-        moving.x += dirRef.current.dx * SHOOT_SPEED * dt;
-        moving.y += dirRef.current.dy * SHOOT_SPEED * dt;
-        // Bounce walls
-        if (moving.x <= BUBBLE_RADIUS) { moving.x = BUBBLE_RADIUS; dirRef.current.dx *= -1; }
-        if (moving.x >= canvas.width - BUBBLE_RADIUS) { moving.x = canvas.width - BUBBLE_RADIUS; dirRef.current.dx *= -1; }
-        // Hit top
-        if (moving.y <= BUBBLE_RADIUS + 2) {
-          trySnapAndResolve(moving, canvas.width, canvas.height);
-          movingRef.current = null;
-          dirRef.current = null;
-        } else {
-          // Check collision with any stationary bubble (simple grid proximity scan)
-          const grid = gridRef.current;
-          outer: for (let r = 0; r < grid.length; r++) {
-            for (let c = 0; c < grid[r].length; c++) {
-              const b = grid[r][c];
-              if (!b) continue;
-              const dx = moving.x - b.x;
-              const dy = moving.y - (b.y - 0); // descent already in y positions
-              const dist = Math.hypot(dx, dy);
-              if (dist < BUBBLE_DIAMETER - 1) {
-                trySnapAndResolve(moving, canvas.width, canvas.height);
-                movingRef.current = null;
-                dirRef.current = null;
-                break outer;
-              }
-            }
-          }
-        }
-      }
-
-      // Lose condition: any bubble near bottom
-      const dangerLine = canvas.height - 64;
-      const grid = gridRef.current;
-      let lose = false;
-      for (let r = 0; r < grid.length && !lose; r++) {
-        for (let c = 0; c < grid[r].length && !lose; c++) {
-          const b = grid[r][c];
-          if (!b) continue;
-          if (b.y + BUBBLE_RADIUS >= dangerLine) lose = true;
-        }
-      }
-      if (lose) {
-        gridRef.current = grid.map(row => row.map(() => null));
-        if (!muted) playLose();
-        onLoseLife();
-        initGrid(canvas.width, canvas.height);
-      }
-
-      // Win condition: no colored bubbles except gray obstacles
-      const remaining = gridRef.current.flat().filter(b => b && b.color !== 'gray');
-      if (remaining.length === 0) {
-        const elapsed = startMsRef.current ? Math.floor((Date.now() - startMsRef.current) / 1000) : 0;
-        const timeBonus = Math.max(0, 500 - elapsed * 5);
-        const levelScore = scoreRef.current + timeBonus + lives * 50;
-        onWin(levelScore);
-        return; // pause loop until re-init
-      }
-
-      // Time limit for certain levels
-      if (level.timeLimitSec) {
-        const elapsed = startMsRef.current ? (Date.now() - startMsRef.current) / 1000 : 0;
-        if (elapsed > level.timeLimitSec) {
-          if (!muted) playLose();
-          onLoseLife();
-          startMsRef.current = Date.now();
-          initGrid(canvas.width, canvas.height);
-        }
-      }
-
-      // Render
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      // Draw guide
-      const aimBoost = Date.now() < powerRef.current.aimBoostUntil;
-      const guideLen = (reducedAim && !aimBoost) ? 60 : 220;
-      ctx.save();
-      ctx.globalAlpha = 0.5;
-      ctx.strokeStyle = '#38bdf8';
-      ctx.setLineDash([6, 6]);
-      ctx.beginPath();
-      const sx = canvas.width / 2;
-      const sy = canvas.height - BUBBLE_RADIUS - 8;
-      ctx.moveTo(sx, sy);
-      let px = sx, py = sy, pdx = Math.cos(aimAngle), pdy = Math.sin(aimAngle);
-      let remaining = guideLen;
-      for (let i = 0; i < MAX_AIM_BOUNCES && remaining > 0; i++) {
-        const t = remaining;
-        let nx = px + pdx * t;
-        let ny = py + pdy * t;
-        if (nx < BUBBLE_RADIUS) { const over = BUBBLE_RADIUS - nx; nx = BUBBLE_RADIUS + over; pdx *= -1; }
-        if (nx > canvas.width - BUBBLE_RADIUS) { const over = nx - (canvas.width - BUBBLE_RADIUS); nx = (canvas.width - BUBBLE_RADIUS) - over; pdx *= -1; }
-        ctx.lineTo(nx, ny);
-        remaining -= Math.hypot(nx - px, ny - py);
-        px = nx; py = ny;
-      }
-      ctx.stroke();
-      ctx.restore();
-
-      // Draw bubbles
-      for (let r = 0; r < grid.length; r++) {
-        for (let c = 0; c < grid[r].length; c++) {
-          const b = grid[r][c];
-          if (!b) continue;
-          drawBubble(ctx, b);
-        }
-      }
-      if (movingRef.current) drawBubble(ctx, movingRef.current);
-
-      // HUD
-      ctx.save();
-      ctx.font = 'bold 14px ui-sans-serif, system-ui';
-      ctx.fillStyle = '#e2e8f0';
-      ctx.fillText(`Score: ${scoreRef.current}`, 12, 20);
-      if (level.timeLimitSec) {
-        const elapsed = startMsRef.current ? (Date.now() - startMsRef.current) / 1000 : 0;
-        const remain = Math.max(0, Math.ceil(level.timeLimitSec - elapsed));
-        ctx.fillText(`Time: ${remain}s`, 12, 40);
-      }
-      if (Date.now() < powerRef.current.freezeUntil) ctx.fillText('Freeze active', 12, 60);
-      if (Date.now() < powerRef.current.aimBoostUntil) ctx.fillText('Aim boost', 12, 80);
-      ctx.restore();
-
+      const engine = engineRef.current;
+      if (!engine) { rafRef.current = requestAnimationFrame(loop); return; }
+
+      // Held keys and sticks turn the aim by however long this frame lasted
+      const polled = controllerRef.current?.poll(frameSec, inputRef.current.aimAngle ?? engine.aimAngle);
+      if (pausedRef.current) inputRef.current = {}; // input while paused is dropped, not queued for resume
+      else {
+        if (polled) inputRef.current = { ...inputRef.current, ...polled };
+        const rows = garbage?.take(); // held in the inbox while paused
+        if (rows) inputRef.current.garbage = (inputRef.current.garbage ?? 0) + rows;
+      }
+
+      // Fixed-step simulation; input is consumed by the first tick of the frame
+      while (acc >= TICK_SEC) {
+        acc -= TICK_SEC;
+        let input = inputRef.current;
+        inputRef.current = {};
+        if (recorder) input = recorder.tick(input);
+        step(engine, input, TICK_SEC).forEach(handleEvent);
+        if (engine.status === 'won') return; // pause loop until re-init
+      }
+
+      if (music) setMusicTension(dangerProximity(engine));
+
+      const fx = effectsRef.current;
+      updateEffects(fx, frameSec);
+      const shake = shakeOffset(fx);
+      viewRef.current = fitCanvas(ctx, engine.width, engine.height);
+      drawFrame(ctx, engine, { ...bubbleStyle, reducedAim: !!level.reducedAim, shake, bubbleScale: id => appearScale(fx, id) });
+      drawEffects(ctx, fx, bubbleStyle, shake);
       rafRef.current = requestAnimationFrame(loop);
     };
 
     rafRef.current = requestAnimationFrame(loop);
     return () => { if (rafRef.current) cancelAnimationFrame(rafRef.current); };
-  }, [addNewDescendingRow, initGrid, level, muted, onLoseLife, onWin, reducedAim]);
-
-  const drawBubble = (ctx: CanvasRenderingContext2D, b: Bubble) => {
-    const color = COLOR_TO_HEX[b.color];
-    ctx.save();
-    ctx.translate(b.x, b.y);
-    const grad = ctx.createRadialGradient(-6, -6, 4, 0, 0, BUBBLE_RADIUS);
-    grad.addColorStop(0, 'rgba(255,255,255,0.9)');
-    grad.addColorStop(0.15, color);
-    grad.addColorStop(1, '#0b1220');
-    ctx.fillStyle = grad;
-    ctx.beginPath();
-    ctx.arc(0, 0, BUBBLE_RADIUS, 0, Math.PI * 2);
-    ctx.fill();
-    if (b.kind !== 'normal') {
-      ctx.fillStyle = 'rgba(255,255,255,0.9)';
-      ctx.font = 'bold 14px ui-sans-serif, system-ui';
-      const label = b.kind === 'bomb' ? 'B' : b.kind === 'rainbow' ? '?' : b.kind === 'freeze' ? '?' : '?';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(label, 0, 1);
-    }
-    if (b.color === 'gray') {
-      ctx.strokeStyle = 'rgba(15,23,42,0.9)';
-      ctx.lineWidth = 3;
-      ctx.beginPath();
-      ctx.arc(0, 0, BUBBLE_RADIUS - 2, 0, Math.PI * 2);
-      ctx.stroke();
-    }
-    ctx.restore();
-  };
+  }, [bubbleStyle, bus, garbage, level.level, level.reducedAim, music, recorder]);
 
   return (
-    <div ref={wrapRef} className="canvasWrap">
+    <div className="canvasWrap">
       <div className="hud">
-        <span className="badge levelBadge">Level {level.level} ? {level.difficulty}</span>
-        <span className="badge">Colors: {level.colorsCount}</span>
+        {level.endless
+          ? <span className="badge levelBadge">Endless · Wave {wave}</span>
+          : <span className="badge levelBadge">Level {level.level} · {level.difficulty}</span>}
+        {!level.endless && <span className="badge">Colors: {level.colorsCount}</span>}
         {level.rainbowEnabled && <span className="badge">Rainbow On</span>}
         {level.timeLimitSec && <span className="badge">Timer</span>}
+        {level.puzzle && <span className="badge">Puzzle</span>}
+      </div>
+      <canvas ref={canvasRef} className="canvas" />
+      <div className="toast">Click/Tap to shoot · Move or drag to aim · Tap the shooter or right-click to swap</div>
+      {(level.hints ?? DEFAULT_HINTS) > 0 && (
+        <button className="button secondary hintButton" disabled={hints === 0} onClick={() => controllerRef.current?.press('hint')}>
+          Hint ({hints})
+        </button>
+      )}
+      <div className="touchControls">
+        <button className="button secondary" onClick={() => controllerRef.current?.press('swap')}>Swap</button>
+        <button className="button" onClick={() => controllerRef.current?.press('fire')}>Fire</button>
       </div>
-      <canvas ref={canvasRef} className="canvas" width={dimensions.w} height={dimensions.h} />
-      <div className="toast">Click/Tap to shoot ? Move to aim</div>
     </div>
   );
 }
@@ -0,0 +1,85 @@
+"use client";
+import { useCallback, useEffect, useState } from 'react';
+import { ACTION_LABELS, DEFAULT_BINDINGS, INPUT_ACTIONS, buttonLabel, connectedGamepads, keyLabel } from '../lib/input';
+import type { InputAction, InputBindings } from '../lib/input';
+
+interface Props {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+}
+
+type Capture = { action: InputAction; device: 'keys' | 'buttons' } | null;
+
+export default function ControlsPanel({ bindings, onChange }: Props) {
+  const [capture, setCapture] = useState<Capture>(null);
+
+  const add = useCallback((action: InputAction, device: 'keys' | 'buttons', value: string | number) => {
+    const list = bindings[device][action] as (string | number)[];
+    if (!list.includes(value)) onChange({ ...bindings, [device]: { ...bindings[device], [action]: [...list, value] } });
+    setCapture(null);
+  }, [bindings, onChange]);
+
+  const remove = (action: InputAction, device: 'keys' | 'buttons', index: number) => {
+    const list = bindings[device][action].filter((_, i) => i !== index);
+    onChange({ ...bindings, [device]: { ...bindings[device], [action]: list } });
+  };
+
+  // While capturing, the next key (Escape cancels) or newly pressed gamepad button is bound
+  useEffect(() => {
+    if (!capture) return;
+    const onKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code === 'Escape') setCapture(null);
+      else if (capture.device === 'keys') add(capture.action, 'keys', e.code);
+    };
+    window.addEventListener('keydown', onKey, true);
+
+    let raf = 0;
+    const held = new Set(connectedGamepads().flatMap(p => p.buttons.map((b, i) => b.pressed ? i : -1)));
+    const poll = () => {
+      const pressed = connectedGamepads().flatMap(p => p.buttons.map((b, i) => b.pressed ? i : -1)).find(i => i >= 0 && !held.has(i));
+      if (pressed !== undefined && capture.device === 'buttons') add(capture.action, 'buttons', pressed);
+      else raf = requestAnimationFrame(poll);
+    };
+    raf = requestAnimationFrame(poll);
+    return () => {
+      window.removeEventListener('keydown', onKey, true);
+      cancelAnimationFrame(raf);
+    };
+  }, [add, capture]);
+
+  return (
+    <div className="card records">
+      <div>
+        <div className="title">Controls</div>
+        <table className="table">
+          <thead><tr><th>Action</th><th>Keys</th><th>Gamepad</th></tr></thead>
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action}>
+                <td>{ACTION_LABELS[action]}</td>
+                {(['keys', 'buttons'] as const).map(device => (
+                  <td key={device}>
+                    {bindings[device][action].map((value, i) => (
+                      <span className="binding" key={String(value)}>
+                        {device === 'keys' ? keyLabel(value as string) : buttonLabel(value as number)}
+                        <button title="Remove" onClick={() => remove(action, device, i)}>×</button>
+                      </span>
+                    ))}
+                    <button className="button secondary" onClick={() => setCapture({ action, device })}>
+                      {capture?.action === action && capture.device === device ? (device === 'keys' ? 'Press a key...' : 'Press a button...') : 'Add'}
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="controls">
+        <button className="button secondary" onClick={() => onChange(DEFAULT_BINDINGS)}>Reset to Defaults</button>
+      </div>
+    </div>
+  );
+}
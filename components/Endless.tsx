@@ -0,0 +1,123 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import BubbleShooterCanvas from './BubbleShooterCanvas';
+import GameOver from './GameOver';
+import { usePauseControls } from './usePauseControls';
+import type { BubbleStyle } from './render';
+import { ENDLESS_LEVEL } from '../lib/levels';
+import { createEventBus } from '../lib/events';
+import type { GameEvent, Subscriber } from '../lib/events';
+import type { InputBindings } from '../lib/input';
+import { formatSeed, randomSeed } from '../lib/rng';
+import { addShotStats, initialStats, resolveScoring, shotStatsOf } from '../lib/scoring';
+import { qualifiesForLeaderboard } from '../lib/save';
+import type { LeaderboardEntry, SaveData } from '../lib/save';
+import type { GameStats } from '../lib/types';
+import type { EffectsQuality } from '../lib/accessibility';
+
+interface Props {
+  save: SaveData;
+  bindings: InputBindings;
+  bubbleStyle: BubbleStyle;
+  effects: EffectsQuality;
+  reducedMotion: boolean;
+  onSubmit: (entry: LeaderboardEntry) => void; // ranked on the endless leaderboard
+  onEvent?: Subscriber; // also sees every event, for telemetry and announcements
+  onExit: () => void;
+}
+
+const STARTING_LIVES = resolveScoring(ENDLESS_LEVEL).startingLives;
+
+// One board that never needs clearing: rows keep coming faster as the waves pass, until the lives run out
+export default function Endless({ save, bindings, bubbleStyle, effects, reducedMotion, onSubmit, onEvent, onExit }: Props) {
+  const [run, setRun] = useState(() => ({ key: 0, seed: randomSeed() }));
+  const [lives, setLives] = useState(STARTING_LIVES);
+  const [stats, setStats] = useState<GameStats>(initialStats);
+  const [wave, setWave] = useState(1);
+  const [paused, setPaused] = useState(false);
+
+  const bus = useMemo(createEventBus, []);
+  const gameOver = lives <= 0;
+
+  // The engine keeps the score; this mirrors it from the events so it outlives the board
+  const handleEvent = useCallback((e: GameEvent) => {
+    switch (e.type) {
+      case 'shot': setStats(s => ({ ...s, shots: s.shots + 1 })); break;
+      case 'landed': setStats(s => ({ ...addShotStats(s, shotStatsOf(e.shot)), score: s.score + e.shot.points })); break;
+      case 'hint': setStats(s => ({ ...s, score: s.score - e.cost })); break;
+      case 'wave': setWave(e.wave); break;
+      case 'lifeLost': setLives(l => Math.max(0, l - 1)); break;
+    }
+  }, []);
+
+  useEffect(() => bus.subscribe(handleEvent), [bus, handleEvent]);
+  useEffect(() => onEvent ? bus.subscribe(onEvent) : undefined, [bus, onEvent]);
+
+  usePauseControls(!gameOver, paused, setPaused);
+
+  // Every run rolls a new seed, so the board and rows differ each time
+  const restart = () => {
+    setLives(STARTING_LIVES);
+    setStats(initialStats());
+    setWave(1);
+    setPaused(false);
+    setRun(r => ({ key: r.key + 1, seed: randomSeed() }));
+  };
+
+  const submitScore = (name: string) => {
+    onSubmit({ name, score: stats.score, level: wave, seed: formatSeed(run.seed), date: new Date().toISOString() });
+  };
+
+  return (
+    <>
+      <div className="header">
+        <div className="title">Color Burst: Endless</div>
+        <div className="controls">
+          <div className="stat">Wave: <strong>{wave}</strong></div>
+          <div className="stat">Lives: <strong>{lives}</strong></div>
+          <div className="stat">Score: <strong>{stats.score}</strong></div>
+          <div className="stat">Seed: <strong>{formatSeed(run.seed)}</strong></div>
+          {!gameOver && <button className="button" onClick={() => setPaused(p => !p)}>{paused ? 'Resume' : 'Pause'}</button>}
+          <button className="button secondary" onClick={restart}>Restart</button>
+          <button className="button secondary" onClick={onExit}>Back to Levels</button>
+        </div>
+      </div>
+
+      <div className="card">
+        {gameOver ? (
+          <GameOver
+            stats={stats}
+            level={ENDLESS_LEVEL.level}
+            wave={wave}
+            continuePenalty={0}
+            canSubmit={qualifiesForLeaderboard(save, stats.score, 'endless')}
+            defaultName={save.settings.playerName}
+            onSubmit={submitScore}
+            onRetry={restart}
+            onNewRun={onExit}
+          />
+        ) : <div className="canvasWrap">
+          <BubbleShooterCanvas
+            key={run.key}
+            level={ENDLESS_LEVEL}
+            seed={run.seed}
+            lives={lives}
+            bindings={bindings}
+            bubbleStyle={bubbleStyle}
+            effects={effects}
+            reducedMotion={reducedMotion}
+            paused={paused}
+            bus={bus}
+          />
+          {paused && <div className="pauseOverlay">
+            <div className="title">Paused</div>
+            <div className="controls">
+              <button className="button" onClick={() => setPaused(false)}>Resume</button>
+              <button className="button secondary" onClick={restart}>Restart</button>
+            </div>
+          </div>}
+        </div>}
+      </div>
+    </>
+  );
+}
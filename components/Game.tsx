@@ -1,90 +1,422 @@
 "use client";
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import BubbleShooterCanvas from './BubbleShooterCanvas';
-import { LEVELS } from '../lib/levels';
-import type { GameStats, LevelConfig } from '../lib/types';
-import { playWin } from '../lib/audio';
+import ReplayViewer from './ReplayViewer';
+import GameOver from './GameOver';
+import RecordsPanel from './RecordsPanel';
+import ControlsPanel from './ControlsPanel';
+import AccessibilityPanel from './AccessibilityPanel';
+import AudioPanel from './AudioPanel';
+import Versus from './Versus';
+import Endless from './Endless';
+import { usePauseControls } from './usePauseControls';
+import { PALETTES } from './render';
+import { BASE_COLORS, LEVELS } from '../lib/levels';
+import { GOAL_NAMES } from '../lib/engine';
+import type { EngineEvent, ShotOutcome } from '../lib/engine';
+import { createAnalyticsSink, createEventBus, toNdjson } from '../lib/events';
+import type { GameEvent } from '../lib/events';
+import type { GameStats, LevelConfig, LevelResult } from '../lib/types';
+import { setAudioMix } from '../lib/audio';
+import type { AudioMix } from '../lib/audio';
+import { deriveSeed, formatSeed, parseSeed, randomSeed } from '../lib/rng';
+import { createRecorder, parseReplay, serializeReplay } from '../lib/replay';
+import type { ReplayFile } from '../lib/replay';
+import { downloadFile, pickFile } from '../lib/files';
+import { accuracyOf, addShotStats, continueRun, initialStats, resolveScoring, shotStatsOf, starsLabel } from '../lib/scoring';
+import {
+  addLeaderboardEntry, emptySave, loadSave, parseSave, qualifiesForLeaderboard, recordLevelClear, serializeSave, writeSave,
+} from '../lib/save';
+import type { LeaderboardEntry, SaveData } from '../lib/save';
+import type { InputBindings } from '../lib/input';
+import { COLOR_GLYPHS, describeEvent, isReducedMotion } from '../lib/accessibility';
+import type { AccessibilitySettings } from '../lib/accessibility';
+
+const livesFor = (index: number) => resolveScoring(LEVELS[index]).startingLives;
 
 export default function Game() {
   const [levelIndex, setLevelIndex] = useState(0);
-  const [lives, setLives] = useState(3);
-  const [stats, setStats] = useState<GameStats>({ score: 0, shots: 0, combos: 0 });
+  const [lives, setLives] = useState(() => livesFor(0));
+  const [stats, setStats] = useState<GameStats>(initialStats);
   const [runningKey, setRunningKey] = useState(0);
-  const [muted, setMuted] = useState(false);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [lastReplay, setLastReplay] = useState<ReplayFile | null>(null);
+  const [viewing, setViewing] = useState<ReplayFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [save, setSave] = useState<SaveData>(emptySave);
+  const [loaded, setLoaded] = useState(false);
+  const [showRecords, setShowRecords] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  const [showSound, setShowSound] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [pauseSettings, setPauseSettings] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const [reducedMotion, setReducedMotion] = useState(false);
+  const pendingAnnouncements = useRef<string[]>([]);
+  const [lastResult, setLastResult] = useState<LevelResult | null>(null);
+  const [versus, setVersus] = useState(false);
+  const [endless, setEndless] = useState(false);
+
+  // Run seed comes from ?seed= so a board can be reproduced; otherwise roll one on the client
+  useEffect(() => {
+    setSeed(parseSeed(new URLSearchParams(window.location.search).get('seed')) ?? randomSeed());
+  }, []);
+
+  // Restore the save once on the client, then keep it in sync with the run
+  useEffect(() => {
+    const data = loadSave();
+    setSave(data);
+    if (data.progress) {
+      setLevelIndex(Math.min(data.progress.levelIndex, LEVELS.length - 1));
+      setStats(data.progress.stats);
+      setLives(livesFor(Math.min(data.progress.levelIndex, LEVELS.length - 1)));
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    setSave(s => ({ ...s, progress: { levelIndex, stats } }));
+  }, [levelIndex, loaded, stats]);
+
+  useEffect(() => {
+    if (loaded) writeSave(save);
+  }, [loaded, save]);
+
+  const accessibility = save.settings.accessibility;
+  const audioMix = save.settings.audio;
+  const muted = audioMix.muted;
+
+  useEffect(() => setAudioMix(audioMix), [audioMix]);
+  const bubbleStyle = useMemo(
+    () => ({ palette: accessibility.palette, glyphs: accessibility.glyphs }),
+    [accessibility.glyphs, accessibility.palette],
+  );
+
+  // Follow the OS setting live unless the player picked one explicitly
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const sync = () => setReducedMotion(isReducedMotion(accessibility));
+    sync();
+    query.addEventListener('change', sync);
+    return () => query.removeEventListener('change', sync);
+  }, [accessibility]);
+
+  // Events from one tick are read as one sentence; a repeated message gets a trailing space so it is re-read
+  const announce = useCallback((text: string) => {
+    if (pendingAnnouncements.current.push(text) > 1) return;
+    setTimeout(() => {
+      const message = pendingAnnouncements.current.join('. ');
+      pendingAnnouncements.current = [];
+      setAnnouncement(prev => prev === message ? message + '\u00a0' : message);
+    }, 0);
+  }, []);
+
+  const handleEngineEvent = useCallback((e: EngineEvent) => {
+    const text = describeEvent(e);
+    if (text) announce(text);
+  }, [announce]);
 
   const level: LevelConfig = useMemo(() => LEVELS[levelIndex], [levelIndex]);
+  const rules = useMemo(() => resolveScoring(level), [level]);
+  const gameOver = lives <= 0;
+  const canPause = !gameOver && !viewing && !versus && !endless;
+
+  const pause = useCallback((next: boolean) => {
+    if (next === paused) return;
+    setPaused(next);
+    setPauseSettings(false);
+    if (accessibility.announce) announce(next ? 'Paused' : 'Resumed');
+  }, [accessibility.announce, announce, paused]);
+
+  usePauseControls(canPause, paused, pause);
+
+  // The score cannot change while the summary is up, so this fires once per game over
+  useEffect(() => {
+    if (gameOver && accessibility.announce) announce(`Game over. Final score ${stats.score}`);
+  }, [accessibility.announce, announce, gameOver, stats.score]);
 
-  const handleLevelWin = useCallback((levelScore: number) => {
-    setStats(s => ({ ...s, score: s.score + levelScore }));
-    playWin();
+  useEffect(() => {
+    setStats(s => s.levelReached >= level.level ? s : { ...s, levelReached: level.level });
+  }, [level.level]);
+
+  const levelSeed = useMemo(() => seed === null ? null : deriveSeed(seed, levelIndex), [levelIndex, seed]);
+  // One recording per level attempt; restarts are captured inside it
+  const recorder = useMemo(() => levelSeed === null ? undefined : createRecorder(level, levelSeed), [level, levelSeed]);
+
+  const handleLevelWin = useCallback((result: LevelResult) => {
+    setStats(s => ({ ...s, score: s.score + result.levelScore }));
+    setLastResult(result);
+    setSave(s => recordLevelClear(s, levelIndex, level.level, result));
+    if (recorder) setLastReplay(recorder.finish({ score: result.levelScore, won: true }));
     setTimeout(() => {
-      if (levelIndex < LEVELS.length - 1) {
-        setLevelIndex(levelIndex + 1);
-        setLives(3);
-        setRunningKey(k => k + 1);
-      } else {
-        // Restart after final level
-        setLevelIndex(0);
-        setLives(3);
-        setRunningKey(k => k + 1);
-      }
+      // Wrap back to the first level after the final one
+      const next = levelIndex < LEVELS.length - 1 ? levelIndex + 1 : 0;
+      setLevelIndex(next);
+      setLives(livesFor(next));
+      setRunningKey(k => k + 1);
     }, 800);
-  }, [levelIndex]);
-
-  const handleLoseLife = useCallback(() => {
-    setLives(l => {
-      const next = l - 1;
-      if (next <= 0) {
-        // reset level with score penalty
-        setRunningKey(k => k + 1);
-        return 3;
-      }
-      return next;
-    });
-  }, []);
+  }, [level.level, levelIndex, recorder]);
+
+  // Reaching zero lives unmounts the board and shows the game-over summary
+  const handleLoseLife = useCallback(() => setLives(l => Math.max(0, l - 1)), []);
 
   const handleShot = useCallback(() => setStats(s => ({ ...s, shots: s.shots + 1 })), []);
-  const handleCombo = useCallback(() => setStats(s => ({ ...s, combos: s.combos + 1 })), []);
+  const handleLanded = useCallback((shot: ShotOutcome) => setStats(s => addShotStats(s, shotStatsOf(shot))), []);
+
+  // The board publishes every engine event here; game flow, announcements and telemetry each subscribe
+  const bus = useMemo(createEventBus, []);
+  const analytics = useMemo(createAnalyticsSink, []);
+
+  useEffect(() => bus.subscribe(analytics.subscriber), [analytics, bus]);
+
+  useEffect(() => bus.subscribe(e => {
+    switch (e.type) {
+      case 'shot': handleShot(); break;
+      case 'landed': handleLanded(e.shot); break;
+      case 'lifeLost': handleLoseLife(); break;
+      case 'win': handleLevelWin(e.result); break;
+    }
+  }), [bus, handleLanded, handleLevelWin, handleLoseLife, handleShot]);
+
+  useEffect(() => accessibility.announce ? bus.subscribe(handleEngineEvent) : undefined, [accessibility.announce, bus, handleEngineEvent]);
+
+  // Endless runs publish on their own bus; telemetry and announcements still follow them
+  const handleEndlessEvent = useCallback((e: GameEvent) => {
+    analytics.subscriber(e);
+    if (accessibility.announce) handleEngineEvent(e);
+  }, [accessibility.announce, analytics, handleEngineEvent]);
 
-  const restartLevel = () => setRunningKey(k => k + 1);
+  const submitEndlessScore = useCallback((entry: LeaderboardEntry) => setSave(s => addLeaderboardEntry(s, entry, 'endless')), []);
 
-  const accuracy = stats.shots > 0 ? Math.round(((stats.shots - Math.max(0, stats.shots - stats.combos * 2)) / stats.shots) * 100) : 100;
+  const exportTelemetry = () => downloadFile('colorburst-telemetry.ndjson', toNdjson(analytics.records()), 'application/x-ndjson');
+
+  const restartLevel = () => {
+    setPaused(false);
+    setRunningKey(k => k + 1);
+  };
+
+  // Opening a menu pauses the board underneath it
+  const togglePanel = (open: boolean, setOpen: (open: boolean) => void) => {
+    if (!open && canPause) pause(true);
+    setOpen(!open);
+  };
+
+  const retryLevel = () => {
+    setStats(s => continueRun(s, rules));
+    setLives(rules.startingLives);
+    setRunningKey(k => k + 1);
+  };
+
+  const submitScore = (name: string) => {
+    setSave(s => addLeaderboardEntry(s, {
+      name, score: stats.score, level: stats.levelReached, seed: seed === null ? '' : formatSeed(seed), date: new Date().toISOString(),
+    }));
+  };
+
+  // Skipping only reaches levels the select would offer
+  const canSkip = levelIndex < Math.min(LEVELS.length - 1, save.unlockedIndex);
+
+  const selectLevel = (index: number) => {
+    setPaused(false);
+    setLevelIndex(index);
+    setLives(livesFor(index));
+    setRunningKey(k => k + 1);
+  };
+
+  const exportSave = () => downloadFile('colorburst-save.json', serializeSave(save));
+
+  const importSave = async () => {
+    const file = await pickFile('application/json,.json');
+    if (!file) return;
+    try {
+      const data = parseSave(await file.text());
+      setSave(data);
+      setFileError(null);
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  const newRun = () => {
+    setStats(initialStats());
+    setLevelIndex(0);
+    setLives(livesFor(0));
+    setRunningKey(k => k + 1);
+  };
+
+  const changeAudio = (next: AudioMix) => {
+    if (next.muted !== muted) recorder?.setMuted(next.muted);
+    setSave(s => ({ ...s, settings: { ...s.settings, audio: next } }));
+  };
+
+  const toggleMuted = () => changeAudio({ ...audioMix, muted: !muted });
+
+  const exportReplay = () => {
+    const replay = lastReplay ?? recorder?.toFile();
+    if (!replay) return;
+    downloadFile(`replay-level${replay.level.level}-${formatSeed(replay.seed)}.json`, serializeReplay(replay));
+  };
+
+  const importReplay = async () => {
+    const file = await pickFile('application/json,.json');
+    if (!file) return;
+    try {
+      setViewing(parseReplay(await file.text()));
+      setFileError(null);
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  // The live board is unmounted while a replay is shown, so closing it restarts the level
+  const closeReplay = () => {
+    setViewing(null);
+    setRunningKey(k => k + 1);
+  };
+
+  const changeAccessibility = useCallback((accessibility: AccessibilitySettings) => {
+    setSave(s => ({ ...s, settings: { ...s.settings, accessibility } }));
+  }, []);
+
+  const changeBindings = useCallback((bindings: InputBindings) => {
+    setSave(s => ({ ...s, settings: { ...s.settings, bindings } }));
+  }, []);
+
+  const accuracy = accuracyOf(stats);
+
+  // Versus takes over the page; the solo board remounts and restarts its level on the way back
+  if (versus) {
+    return (
+      <div className={reducedMotion ? 'container reduceMotion' : 'container'}>
+        <Versus bubbleStyle={bubbleStyle} effects={accessibility.effects} reducedMotion={reducedMotion} onExit={() => setVersus(false)} />
+      </div>
+    );
+  }
+
+  // Endless takes over the page the same way, but keeps the announcer
+  if (endless) {
+    return (
+      <div className={reducedMotion ? 'container reduceMotion' : 'container'}>
+        <div className="srOnly" role="status" aria-live="polite">{announcement}</div>
+        <Endless
+          save={save}
+          bindings={save.settings.bindings}
+          bubbleStyle={bubbleStyle}
+          effects={accessibility.effects}
+          reducedMotion={reducedMotion}
+          onSubmit={submitEndlessScore}
+          onEvent={handleEndlessEvent}
+          onExit={() => setEndless(false)}
+        />
+      </div>
+    );
+  }
 
   return (
-    <div className="container">
+    <div className={reducedMotion ? 'container reduceMotion' : 'container'}>
+      <div className="srOnly" role="status" aria-live="polite">{announcement}</div>
       <div className="header">
         <div className="title">Color Burst: Bubble Shooter</div>
         <div className="controls">
-          <div className="stat">Level: <strong>{level.level} / {LEVELS.length}</strong></div>
+          <select className="select" value={levelIndex} onChange={e => selectLevel(Number(e.target.value))}>
+            {LEVELS.map((l, i) => (
+              <option key={l.level} value={i} disabled={i > save.unlockedIndex}>Level {l.level} / {LEVELS.length}</option>
+            ))}
+          </select>
           <div className="stat">Difficulty: <strong>{level.difficulty}</strong></div>
           <div className="stat">Lives: <strong>{lives}</strong></div>
           <div className="stat">Score: <strong>{stats.score}</strong></div>
+          <div className="stat">Seed: <strong>{seed === null ? '?' : formatSeed(seed)}</strong></div>
+          <div className="legend" aria-label="Bubble colors in this level">
+            {BASE_COLORS.slice(0, level.colorsCount).map(color => (
+              <span key={color} className="chip" title={color}>
+                <span className="color" style={{ background: PALETTES[bubbleStyle.palette][color] }} />
+                {bubbleStyle.glyphs ? COLOR_GLYPHS[color] : color}
+              </span>
+            ))}
+          </div>
           <button className="button secondary" onClick={restartLevel}>Restart Level</button>
-          <button className="button" onClick={() => setLevelIndex(i => Math.max(0, Math.min(LEVELS.length - 1, i + 1)))}>Skip ?</button>
-          <button className="button" onClick={() => setMuted(m => !m)}>{muted ? 'Unmute' : 'Mute'}</button>
+          <button className="button" disabled={!canSkip} onClick={() => selectLevel(levelIndex + 1)}>Skip →</button>
+          <button className="button" onClick={toggleMuted}>{muted ? 'Unmute' : 'Mute'}</button>
+          <button className="button secondary" disabled={!lastReplay} onClick={() => setViewing(lastReplay)}>Replay</button>
+          <button className="button secondary" onClick={exportReplay}>Export Replay</button>
+          <button className="button secondary" onClick={importReplay}>Import Replay</button>
+          <button className="button secondary" onClick={exportTelemetry}>Export Telemetry</button>
+          <button className="button" disabled={!canPause} onClick={() => pause(!paused)}>{paused ? 'Resume' : 'Pause'}</button>
+          <button className="button secondary" onClick={() => togglePanel(showRecords, setShowRecords)}>{showRecords ? 'Hide Records' : 'Records'}</button>
+          <button className="button secondary" onClick={() => togglePanel(showControls, setShowControls)}>{showControls ? 'Hide Controls' : 'Controls'}</button>
+          <button className="button secondary" onClick={() => togglePanel(showSound, setShowSound)}>{showSound ? 'Hide Sound' : 'Sound'}</button>
+          <button className="button secondary" onClick={() => togglePanel(showAccessibility, setShowAccessibility)}>
+            {showAccessibility ? 'Hide Accessibility' : 'Accessibility'}
+          </button>
+          <button className="button secondary" onClick={() => { setPaused(false); setEndless(true); }}>Endless</button>
+          <button className="button secondary" onClick={() => { setPaused(false); setVersus(true); }}>Versus</button>
+          <Link className="button secondary" href="/editor">Level Editor</Link>
         </div>
       </div>
 
       <div className="card">
-        <div className="canvasWrap">
-          <BubbleShooterCanvas
+        {viewing ? <ReplayViewer replay={viewing} bubbleStyle={bubbleStyle} onClose={closeReplay} /> : gameOver ? (
+          <GameOver
+            stats={stats}
+            level={level.level}
+            continuePenalty={rules.continuePenalty}
+            canSubmit={qualifiesForLeaderboard(save, stats.score)}
+            defaultName={save.settings.playerName}
+            onSubmit={submitScore}
+            onRetry={retryLevel}
+            onNewRun={newRun}
+          />
+        ) : <div className="canvasWrap">
+          {levelSeed !== null && loaded && <BubbleShooterCanvas
             key={runningKey}
             level={level}
+            seed={levelSeed}
             lives={lives}
-            muted={muted}
-            onWin={handleLevelWin}
-            onLoseLife={handleLoseLife}
-            onShot={handleShot}
-            onCombo={handleCombo}
-          />
-        </div>
+            recorder={recorder}
+            bindings={save.settings.bindings}
+            bubbleStyle={bubbleStyle}
+            effects={accessibility.effects}
+            reducedMotion={reducedMotion}
+            paused={paused}
+            bus={bus}
+          />}
+          {paused && <div className="pauseOverlay">
+            <div className="title">Paused</div>
+            <div className="controls">
+              <button className="button" onClick={() => pause(false)}>Resume</button>
+              <button className="button secondary" onClick={restartLevel}>Restart Level</button>
+              <button className="button secondary" onClick={() => setPauseSettings(v => !v)}>{pauseSettings ? 'Hide Settings' : 'Settings'}</button>
+            </div>
+            {pauseSettings && <div className="pauseSettings">
+              <AudioPanel mix={audioMix} onChange={changeAudio} />
+              <AccessibilityPanel settings={accessibility} onChange={changeAccessibility} />
+              <ControlsPanel bindings={save.settings.bindings} onChange={changeBindings} />
+            </div>}
+          </div>}
+        </div>}
       </div>
 
       <div style={{ marginTop: 12, display: 'flex', gap: 8, flexWrap: 'wrap' }}>
         <div className="stat">Shots: <strong>{stats.shots}</strong></div>
-        <div className="stat">Combos: <strong>{stats.combos}</strong></div>
         <div className="stat">Accuracy: <strong>{accuracy}%</strong></div>
+        <div className="stat">Best Chain: <strong>{stats.longestChain}</strong></div>
+        <div className="stat">Biggest Drop: <strong>{stats.largestDrop}</strong></div>
+        <div className="stat">Bank Shots: <strong>{stats.bounces}</strong></div>
+        {lastResult && <div className="stat">
+          {GOAL_NAMES[lastResult.goal]}: <strong>{starsLabel(lastResult.stars)}</strong>
+          {' '}· {accuracyOf(lastResult.stats)}% accuracy · chain {lastResult.stats.longestChain} · drop {lastResult.stats.largestDrop}
+        </div>}
+        {fileError && <div className="stat">{fileError}</div>}
       </div>
+
+      {showRecords && <RecordsPanel save={save} onExport={exportSave} onImport={importSave} />}
+      {showSound && <AudioPanel mix={audioMix} onChange={changeAudio} />}
+      {showAccessibility && <AccessibilityPanel settings={accessibility} onChange={changeAccessibility} />}
+      {showControls && <ControlsPanel bindings={save.settings.bindings} onChange={changeBindings} />}
     </div>
   );
 }
@@ -0,0 +1,58 @@
+"use client";
+import { useState } from 'react';
+import type { GameStats } from '../lib/types';
+import { accuracyOf } from '../lib/scoring';
+
+interface Props {
+  stats: GameStats;
+  level: number;
+  wave?: number; // set for endless runs, which report the wave reached; retrying starts a fresh run
+  continuePenalty: number;
+  canSubmit: boolean;
+  defaultName: string;
+  onSubmit: (name: string) => void;
+  onRetry: () => void;
+  onNewRun: () => void;
+}
+
+export default function GameOver({ stats, level, wave, continuePenalty, canSubmit, defaultName, onSubmit, onRetry, onNewRun }: Props) {
+  const [name, setName] = useState(defaultName);
+  const [submitted, setSubmitted] = useState(false);
+
+  const submit = () => {
+    onSubmit(name.trim() || 'Player');
+    setSubmitted(true);
+  };
+
+  return (
+    <div className="summary">
+      <div className="title">Game Over</div>
+      <div className="summaryGrid">
+        <div className="stat">Final Score: <strong>{stats.score}</strong></div>
+        {wave === undefined
+          ? <div className="stat">Level Reached: <strong>{stats.levelReached}</strong></div>
+          : <div className="stat">Wave Reached: <strong>{wave}</strong></div>}
+        <div className="stat">Shots: <strong>{stats.shots}</strong></div>
+        <div className="stat">Accuracy: <strong>{accuracyOf(stats)}%</strong> ({stats.hits}/{stats.hits + stats.misses})</div>
+        <div className="stat">Best Chain: <strong>{stats.longestChain}</strong></div>
+        <div className="stat">Biggest Drop: <strong>{stats.largestDrop}</strong></div>
+        <div className="stat">Bank Shots: <strong>{stats.bounces}</strong></div>
+        {stats.continues > 0 && <div className="stat">Continues: <strong>{stats.continues}</strong></div>}
+      </div>
+      {canSubmit && !submitted && (
+        <div className="controls">
+          <input className="input" value={name} maxLength={16} placeholder="Your name" onChange={e => setName(e.target.value)} />
+          <button className="button" onClick={submit}>Save High Score</button>
+        </div>
+      )}
+      <div className="controls">
+        {wave === undefined ? <>
+          <button className="button" onClick={onRetry}>
+            Retry Level {level}{continuePenalty > 0 ? ` (-${Math.round(continuePenalty * 100)}% score)` : ''}
+          </button>
+          <button className="button secondary" onClick={onNewRun}>New Run</button>
+        </> : <button className="button" onClick={onRetry}>Play Again</button>}
+      </div>
+    </div>
+  );
+}
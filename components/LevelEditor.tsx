@@ -0,0 +1,331 @@
+"use client";
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import BubbleShooterCanvas from './BubbleShooterCanvas';
+import { BASE_COLORS, LEVELS } from '../lib/levels';
+import {
+  BUBBLE_RADIUS, DEFAULT_HINTS, DEFAULT_HINT_COST, GOAL_NAMES, MAX_COLS, MAX_ROWS, MIN_COLS, POWERUPS, POWERUP_KINDS,
+  createEngine, gridToXY, rowLength, xyToGridGuess,
+} from '../lib/engine';
+import { COLOR_POLICIES, DIFFICULTIES, GOAL_TYPES, PATTERNS, formatCellToken, parseCellToken, parseLevelFile, toLevelFile, validateLevelFile } from '../lib/levelFormat';
+import { downloadFile, pickFile } from '../lib/files';
+import { createEventBus } from '../lib/events';
+import type { BubbleKind, ColorPolicy, Difficulty, GoalType, LayoutCell, LevelConfig, LevelGoal, LevelResult, StartingPattern } from '../lib/types';
+import { accuracyOf, starsLabel } from '../lib/scoring';
+import { COLOR_TO_HEX, drawBubble } from './render';
+import { fitCanvas, toBoard } from './viewport';
+import type { Viewport } from './viewport';
+
+type Layout = (LayoutCell | null)[][];
+type Brush = LayoutCell | null; // null erases
+
+const KINDS: BubbleKind[] = ['normal', ...POWERUP_KINDS];
+
+// Resize a layout to MAX_ROWS rows of the hex row lengths for `cols`, keeping what fits
+function fitLayout(layout: Layout | undefined, cols: number): Layout {
+  return Array.from({ length: MAX_ROWS }, (_, r) =>
+    Array.from({ length: cols - (r % 2 === 1 ? 1 : 0) }, (_, c) => layout?.[r]?.[c] ?? null));
+}
+
+// Drop trailing empty rows; an empty board means "generate from startingPattern"
+function trimLayout(layout: Layout): Layout | undefined {
+  let last = layout.length - 1;
+  while (last >= 0 && layout[last].every(cell => !cell)) last--;
+  return last < 0 ? undefined : layout.slice(0, last + 1);
+}
+
+function queueTokens(text: string) {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// Switching goal type starts from sensible numbers for the new type
+function defaultGoal(type: GoalType): LevelGoal {
+  switch (type) {
+    case 'score': return { type, target: 1000 };
+    case 'drop': return { type, target: 25 };
+    case 'rescue': return { type, count: 3 };
+    case 'survive': return { type, seconds: 60 };
+    default: return { type: 'clear' };
+  }
+}
+
+export default function LevelEditor() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef<Viewport>({ scale: 1, offsetX: 0, offsetY: 0 });
+  const paintingRef = useRef(false);
+  const [config, setConfig] = useState<LevelConfig>(() => ({ ...LEVELS[0], layout: undefined, queue: undefined }));
+  const [cols, setCols] = useState(LEVELS[0].cols ?? MAX_COLS);
+  const [layout, setLayout] = useState<Layout>(() => fitLayout(LEVELS[0].layout, LEVELS[0].cols ?? MAX_COLS));
+  const [queueText, setQueueText] = useState('');
+  const [brush, setBrush] = useState<Brush>({ color: 'red', kind: 'normal' });
+  const [playtest, setPlaytest] = useState<{ key: number; lives: number; result: string | null } | null>(null);
+  const running = !!playtest && playtest.result === null;
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const level: LevelConfig = useMemo(() => {
+    const queue = queueTokens(queueText).map(parseCellToken).filter((c): c is LayoutCell => !!c && c.color !== 'gray');
+    return { ...config, cols, layout: trimLayout(layout), queue: queue.length ? queue : undefined };
+  }, [cols, config, layout, queueText]);
+
+  // Validate the raw queue tokens too, so typos are reported instead of silently dropped
+  const errors = useMemo(() => {
+    const tokens = queueTokens(queueText);
+    return validateLevelFile({ ...toLevelFile(level), queue: tokens.length ? tokens : undefined }).errors;
+  }, [level, queueText]);
+
+  // Engine state only used for board geometry, so painting maps through the same hex math as play
+  const preview = useMemo(() => createEngine({ ...level, layout }, 0), [layout, level]);
+
+  // Drawn at the play board's size, so the empty space below the layout is what a player will see
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    viewRef.current = fitCanvas(ctx, preview.width, preview.height);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(148,163,184,0.25)';
+    for (let r = 0; r < MAX_ROWS; r++) {
+      for (let c = 0; c < rowLength(preview, r); c++) {
+        const { x, y } = gridToXY(preview, r, c);
+        ctx.beginPath();
+        ctx.arc(x, y, BUBBLE_RADIUS - 1, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+    for (const row of preview.grid) {
+      for (const b of row) {
+        if (b) drawBubble(ctx, b);
+      }
+    }
+  }, [preview]);
+
+  // Only redrawn on edits, so a resize has to refit the canvas too
+  useEffect(() => {
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [draw, playtest]);
+
+  const paintAt = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current!;
+    const { x, y } = toBoard(viewRef.current, canvas, clientX, clientY);
+    const { row, col } = xyToGridGuess(preview, x, y);
+    if (row < 0 || row >= MAX_ROWS || col < 0 || col >= rowLength(preview, row)) return;
+    if (formatCellToken(layout[row][col]) === formatCellToken(brush)) return;
+    setLayout(prev => prev.map((cells, r) => r !== row ? cells : cells.map((cell, c) => c === col ? brush : cell)));
+  };
+
+  const update = <K extends keyof LevelConfig>(key: K, value: LevelConfig[K]) => setConfig(c => ({ ...c, [key]: value }));
+
+  const changeCols = (next: number) => {
+    const clamped = Math.max(MIN_COLS, Math.min(MAX_COLS, next || MIN_COLS));
+    setCols(clamped);
+    setLayout(l => fitLayout(l, clamped));
+  };
+
+  const loadConfig = (source: LevelConfig) => {
+    const nextCols = source.cols ?? MAX_COLS;
+    setConfig({ ...source, layout: undefined, queue: undefined });
+    setCols(nextCols);
+    setLayout(fitLayout(source.layout, nextCols));
+    setQueueText(source.queue?.map(formatCellToken).join(' ') ?? '');
+    setLoadError(null);
+  };
+
+  const saveFile = () => {
+    const name = `level-${String(level.level).padStart(2, '0')}.json`;
+    downloadFile(name, JSON.stringify(toLevelFile(level), null, 2) + '\n');
+  };
+
+  const loadFile = async () => {
+    const file = await pickFile('application/json,.json');
+    if (!file) return;
+    try {
+      loadConfig(parseLevelFile(JSON.parse(await file.text()), file.name));
+    } catch (err) {
+      setLoadError((err as Error).message);
+    }
+  };
+
+  const startPlaytest = () => setPlaytest(p => ({ key: (p?.key ?? 0) + 1, lives: 3, result: null }));
+
+  const handleWin = useCallback((result: LevelResult) => {
+    setPlaytest(p => p && { ...p, result: `${GOAL_NAMES[result.goal]} ${starsLabel(result.stars)}: ${result.levelScore} points, ${result.shots} shots, ${accuracyOf(result.stats)}% hits, ${result.timeSec}s` });
+  }, []);
+  const handleLoseLife = useCallback(() => {
+    setPlaytest(p => p && { ...p, lives: p.lives - 1, result: p.lives <= 1 ? 'Out of lives' : null });
+  }, []);
+
+  const bus = useMemo(createEventBus, []);
+  useEffect(() => bus.subscribe(e => {
+    if (e.type === 'win') handleWin(e.result);
+    else if (e.type === 'lifeLost') handleLoseLife();
+  }), [bus, handleLoseLife, handleWin]);
+
+  if (playtest) {
+    return (
+      <div className="container">
+        <div className="header">
+          <div className="title">Playtest: Level {level.level}</div>
+          <div className="controls">
+            <div className="stat">Lives: <strong>{playtest.lives}</strong></div>
+            {playtest.result && <div className="stat">{playtest.result}</div>}
+            <button className="button" onClick={startPlaytest}>Restart</button>
+            <button className="button secondary" onClick={() => setPlaytest(null)}>Back to Editor</button>
+          </div>
+        </div>
+        <div className="card">
+          <div className="canvasWrap">
+            {running && <BubbleShooterCanvas
+              key={playtest.key}
+              level={level}
+              seed={playtest.key}
+              lives={playtest.lives}
+              bus={bus}
+            />}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const brushIs = (b: Brush) => formatCellToken(brush) === formatCellToken(b);
+  const goal = config.goal ?? defaultGoal('clear');
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="title">Level Editor</div>
+        <div className="controls">
+          <select className="select" value="" onChange={e => loadConfig(LEVELS[Number(e.target.value)])}>
+            <option value="" disabled>Start from level...</option>
+            {LEVELS.map((l, i) => <option key={l.level} value={i}>Level {l.level}</option>)}
+          </select>
+          <button className="button secondary" onClick={loadFile}>Load File</button>
+          <button className="button secondary" disabled={errors.length > 0} onClick={saveFile}>Save File</button>
+          <button className="button" disabled={errors.length > 0} onClick={startPlaytest}>Playtest</button>
+          <Link className="button secondary" href="/">Back to Game</Link>
+        </div>
+      </div>
+
+      <div className="editorLayout">
+        <div className="card">
+          <canvas
+            ref={canvasRef}
+            className="canvas"
+            style={{ height: 'auto', aspectRatio: `${preview.width} / ${preview.height}`, touchAction: 'none' }}
+            onPointerDown={e => { paintingRef.current = true; paintAt(e.clientX, e.clientY); }}
+            onPointerMove={e => { if (paintingRef.current) paintAt(e.clientX, e.clientY); }}
+            onPointerUp={() => { paintingRef.current = false; }}
+            onPointerLeave={() => { paintingRef.current = false; }}
+          />
+        </div>
+
+        <div className="card editorPanel">
+          <div className="palette">
+            {BASE_COLORS.map(color => (
+              <button
+                key={color}
+                className={brushIs({ color, kind: brush?.kind ?? 'normal', target: brush?.target }) ? 'swatch active' : 'swatch'}
+                style={{ background: COLOR_TO_HEX[color] }}
+                title={color}
+                onClick={() => setBrush(brush && brush.color !== 'gray' ? { ...brush, color } : { color, kind: 'normal' })}
+              />
+            ))}
+            <button className={brushIs({ color: 'gray', kind: 'normal' }) ? 'swatch active' : 'swatch'} style={{ background: COLOR_TO_HEX.gray }} title="gray obstacle" onClick={() => setBrush({ color: 'gray', kind: 'normal' })}>#</button>
+            <button className={brush === null ? 'swatch active' : 'swatch'} title="erase" onClick={() => setBrush(null)}>.</button>
+          </div>
+          <label className="field">Kind
+            <select className="select" value={brush?.kind ?? 'normal'} disabled={!brush || brush.color === 'gray'} onChange={e => brush && setBrush({ ...brush, kind: e.target.value as BubbleKind })}>
+              {KINDS.map(k => <option key={k} value={k}>{k === 'normal' ? 'normal' : POWERUPS[k].name}</option>)}
+            </select>
+          </label>
+          <label className="check">
+            <input type="checkbox" checked={!!brush?.target} disabled={!brush || brush.color === 'gray'} onChange={e => brush && setBrush({ ...brush, target: e.target.checked || undefined })} /> Rescue target
+          </label>
+          <button className="button secondary" onClick={() => setLayout(fitLayout(undefined, cols))}>Clear Board</button>
+
+          <label className="field">Level
+            <input className="input" type="number" min={1} value={config.level} onChange={e => update('level', Number(e.target.value))} />
+          </label>
+          <label className="field">Difficulty
+            <select className="select" value={config.difficulty} onChange={e => update('difficulty', e.target.value as Difficulty)}>
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <label className="field">Columns
+            <input className="input" type="number" min={MIN_COLS} max={MAX_COLS} value={cols} onChange={e => changeCols(Number(e.target.value))} />
+          </label>
+          <label className="field">Colors
+            <input className="input" type="number" min={1} max={BASE_COLORS.length} value={config.colorsCount} onChange={e => update('colorsCount', Number(e.target.value))} />
+          </label>
+          <label className="field">Descent speed (px/s)
+            <input className="input" type="number" min={0} step={0.5} value={config.descentSpeed} onChange={e => update('descentSpeed', Number(e.target.value))} />
+          </label>
+          <label className="field">Time limit (s, blank for none)
+            <input className="input" type="number" min={1} value={config.timeLimitSec ?? ''} onChange={e => update('timeLimitSec', e.target.value ? Number(e.target.value) : undefined)} />
+          </label>
+          <label className="field">Hints (blank for {DEFAULT_HINTS})
+            <input className="input" type="number" min={0} value={config.hints ?? ''} onChange={e => update('hints', e.target.value ? Number(e.target.value) : undefined)} />
+          </label>
+          <label className="field">Hint cost (blank for {DEFAULT_HINT_COST})
+            <input className="input" type="number" min={0} value={config.hintCost ?? ''} onChange={e => update('hintCost', e.target.value ? Number(e.target.value) : undefined)} />
+          </label>
+          <label className="field">Random color chance
+            <input className="input" type="number" min={0} max={1} step={0.01} value={config.randomColorChance} onChange={e => update('randomColorChance', Number(e.target.value))} />
+          </label>
+          <label className="field">Shooter colors
+            <select className="select" value={config.colorPolicy ?? 'present'} onChange={e => update('colorPolicy', e.target.value as ColorPolicy)}>
+              {COLOR_POLICIES.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </label>
+          <label className="field">Starting pattern (empty board only)
+            <select className="select" value={config.startingPattern} onChange={e => update('startingPattern', e.target.value as StartingPattern)}>
+              {PATTERNS.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </label>
+          <label className="field">Gray obstacles (empty board only)
+            <input className="input" type="number" min={0} value={config.unbreakableGrayCount} onChange={e => update('unbreakableGrayCount', Number(e.target.value))} />
+          </label>
+          <label className="field">Goal
+            <select className="select" value={goal.type} onChange={e => update('goal', defaultGoal(e.target.value as GoalType))}>
+              {GOAL_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </label>
+          {(goal.type === 'score' || goal.type === 'drop') && (
+            <label className="field">{goal.type === 'score' ? 'Target score' : 'Bubbles to drop'}
+              <input className="input" type="number" min={1} value={goal.target} onChange={e => update('goal', { ...goal, target: Number(e.target.value) })} />
+            </label>
+          )}
+          {goal.type === 'score' && (
+            <label className="field">Shot budget (blank for none)
+              <input className="input" type="number" min={1} value={goal.shots ?? ''} onChange={e => update('goal', { ...goal, shots: e.target.value ? Number(e.target.value) : undefined })} />
+            </label>
+          )}
+          {goal.type === 'rescue' && (
+            <label className="field">Random targets (blank to use painted ones)
+              <input className="input" type="number" min={1} value={goal.count ?? ''} onChange={e => update('goal', { ...goal, count: e.target.value ? Number(e.target.value) : undefined })} />
+            </label>
+          )}
+          {goal.type === 'survive' && (
+            <label className="field">Seconds to survive
+              <input className="input" type="number" min={1} value={goal.seconds} onChange={e => update('goal', { ...goal, seconds: Number(e.target.value) })} />
+            </label>
+          )}
+          <label className="field">Shot queue (tokens, e.g. R B Gb)
+            <input className="input" value={queueText} onChange={e => setQueueText(e.target.value)} />
+          </label>
+          <label className="check"><input type="checkbox" checked={!!config.rainbowEnabled} onChange={e => update('rainbowEnabled', e.target.checked)} /> Rainbow bubbles</label>
+          <label className="check"><input type="checkbox" checked={!!config.reducedAim} onChange={e => update('reducedAim', e.target.checked)} /> Reduced aim guide</label>
+          <label className="check"><input type="checkbox" checked={!!config.doubleLayer} onChange={e => update('doubleLayer', e.target.checked)} /> Double layer</label>
+          <label className="check"><input type="checkbox" checked={!!config.puzzle} onChange={e => update('puzzle', e.target.checked)} /> Puzzle (queue only, no descent)</label>
+
+          {(errors.length > 0 || loadError) && (
+            <pre className="errors">{loadError ?? errors.map(e => '- ' + e).join('\n')}</pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
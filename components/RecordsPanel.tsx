@@ -0,0 +1,65 @@
+"use client";
+import { LEVELS } from '../lib/levels';
+import type { LeaderboardEntry, SaveData } from '../lib/save';
+import { starsLabel } from '../lib/scoring';
+
+interface Props {
+  save: SaveData;
+  onExport: () => void;
+  onImport: () => void;
+}
+
+function ScoreTable({ title, entries, reached }: { title: string; entries: LeaderboardEntry[]; reached: string }) {
+  return (
+    <div>
+      <div className="title">{title}</div>
+      {entries.length === 0 ? <div className="stat">No scores yet</div> : (
+        <table className="table">
+          <thead><tr><th>#</th><th>Name</th><th>Score</th><th>{reached}</th><th>Seed</th><th>Date</th></tr></thead>
+          <tbody>
+            {entries.map((e, i) => (
+              <tr key={e.date + i}>
+                <td>{i + 1}</td><td>{e.name}</td><td>{e.score}</td><td>{e.level}</td><td>{e.seed}</td>
+                <td>{new Date(e.date).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function RecordsPanel({ save, onExport, onImport }: Props) {
+  return (
+    <div className="card records">
+      <ScoreTable title="High Scores" entries={save.leaderboard} reached="Level" />
+      <ScoreTable title="Endless" entries={save.endlessLeaderboard} reached="Wave" />
+      <div>
+        <div className="title">Level Bests</div>
+        <table className="table">
+          <thead><tr><th>Level</th><th>Best Score</th><th>Best Time</th><th>Fewest Shots</th><th>Stars</th></tr></thead>
+          <tbody>
+            {LEVELS.map((l, i) => {
+              const rec = save.levels[l.level];
+              const locked = i > save.unlockedIndex;
+              return (
+                <tr key={l.level} className={locked ? 'locked' : undefined}>
+                  <td>{l.level}{locked ? ' (locked)' : ''}</td>
+                  <td>{rec ? rec.bestScore : '-'}</td>
+                  <td>{rec ? `${rec.bestTimeSec}s` : '-'}</td>
+                  <td>{rec ? rec.fewestShots : '-'}</td>
+                  <td>{rec?.bestStars ? starsLabel(rec.bestStars) : '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="controls">
+        <button className="button secondary" onClick={onExport}>Export Save</button>
+        <button className="button secondary" onClick={onImport}>Import Save</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+import { useEffect, useRef, useState } from 'react';
+import { MAX_FRAME_SEC, computeGridSize } from '../lib/engine';
+import { advancePlayback, createPlayback, isPlaybackDone, seekPlayback } from '../lib/replay';
+import type { Playback, ReplayFile } from '../lib/replay';
+import { formatSeed } from '../lib/rng';
+import { playEventSound } from '../lib/sfx';
+import { DEFAULT_BUBBLE_STYLE, drawFrame } from './render';
+import type { BubbleStyle } from './render';
+import { fitCanvas } from './viewport';
+
+interface Props {
+  replay: ReplayFile;
+  bubbleStyle?: BubbleStyle;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2];
+
+function formatTime(sec: number) {
+  const s = Math.floor(sec);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+export default function ReplayViewer({ replay, bubbleStyle = DEFAULT_BUBBLE_STYLE, onClose }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rafRef = useRef<number | null>(null);
+  const playbackRef = useRef<Playback>(createPlayback(replay));
+  const [tick, setTick] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const { width: boardW, height: boardH } = computeGridSize(replay.level.cols);
+
+  useEffect(() => {
+    playbackRef.current = createPlayback(replay);
+    setTick(0);
+    setPaused(false);
+  }, [replay]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    let last = performance.now();
+    let acc = 0;
+    let shown = ''; // clock second and score last rendered; the viewer only re-renders when one changes
+
+    const loop = (now: number) => {
+      const pb = playbackRef.current;
+      if (!paused) acc += Math.min(MAX_FRAME_SEC, (now - last) / 1000) * speed;
+      last = now;
+      while (acc >= replay.tickSec && !isPlaybackDone(pb)) {
+        acc -= replay.tickSec;
+        for (const e of advancePlayback(pb)) {
+          if (!pb.muted && speed === 1) playEventSound(e);
+        }
+      }
+      const done = isPlaybackDone(pb);
+      if (done) { acc = 0; setPaused(true); }
+      const view = `${Math.floor(pb.tick * replay.tickSec)}:${pb.engine?.score ?? 0}:${done}`;
+      if (view !== shown) {
+        shown = view;
+        setTick(pb.tick);
+      }
+      if (pb.engine) {
+        fitCanvas(ctx, pb.engine.width, pb.engine.height);
+        drawFrame(ctx, pb.engine, { ...bubbleStyle, reducedAim: !!replay.level.reducedAim });
+      }
+      rafRef.current = requestAnimationFrame(loop);
+    };
+
+    rafRef.current = requestAnimationFrame(loop);
+    return () => { if (rafRef.current) cancelAnimationFrame(rafRef.current); };
+  }, [bubbleStyle, paused, replay, speed]);
+
+  const scrub = (to: number) => {
+    playbackRef.current = seekPlayback(replay, to);
+    setTick(playbackRef.current.tick);
+  };
+
+  const togglePlay = () => {
+    if (paused && isPlaybackDone(playbackRef.current)) scrub(0);
+    setPaused(p => !p);
+  };
+
+  const score = playbackRef.current.engine?.score ?? 0;
+
+  return (
+    <div>
+      <div className="canvasWrap" style={{ aspectRatio: `${boardW} / ${boardH}` }}>
+        <div className="hud">
+          <span className="badge levelBadge">Replay: Level {replay.level.level}</span>
+          <span className="badge">Seed: {formatSeed(replay.seed)}</span>
+        </div>
+        <canvas ref={canvasRef} className="canvas" />
+      </div>
+      <div className="controls" style={{ marginTop: 12 }}>
+        <button className="button" onClick={togglePlay}>{paused ? 'Play' : 'Pause'}</button>
+        {SPEEDS.map(s => (
+          <button key={s} className={s === speed ? 'button' : 'button secondary'} onClick={() => setSpeed(s)}>{s}x</button>
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={replay.ticks}
+          value={tick}
+          onChange={e => scrub(Number(e.target.value))}
+          style={{ flex: 1, minWidth: 160 }}
+        />
+        <div className="stat">{formatTime(tick * replay.tickSec)} / {formatTime(replay.ticks * replay.tickSec)}</div>
+        <div className="stat">Score: <strong>{score}</strong></div>
+        <button className="button secondary" onClick={onClose}>Close Replay</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import BubbleShooterCanvas from './BubbleShooterCanvas';
+import VersusSummary from './VersusSummary';
+import { usePauseControls } from './usePauseControls';
+import type { BubbleStyle } from './render';
+import { LEVELS } from '../lib/levels';
+import { createEventBus } from '../lib/events';
+import type { GameEvent } from '../lib/events';
+import { VERSUS_BINDINGS, keyLabel } from '../lib/input';
+import type { InputAction } from '../lib/input';
+import { randomSeed } from '../lib/rng';
+import { addShotStats, shotStatsOf } from '../lib/scoring';
+import { GARBAGE_DROP_SIZE, VERSUS_LIVES, createGarbageInbox, garbageRowsFor, initialPlayer, isVersusPlayable, versusLevel } from '../lib/versus';
+import type { PlayerState, VersusResult } from '../lib/versus';
+import type { EffectsQuality } from '../lib/accessibility';
+
+interface Props {
+  bubbleStyle: BubbleStyle;
+  effects: EffectsQuality;
+  reducedMotion: boolean;
+  onExit: () => void;
+}
+
+type Players = [PlayerState, PlayerState];
+
+const PLAYER_NAMES = ['Player 1', 'Player 2'];
+const PLAYABLE = LEVELS.map((level, index) => ({ level, index })).filter(({ level }) => isVersusPlayable(level));
+
+const newPlayers = (lives: number): Players => [initialPlayer(PLAYER_NAMES[0], lives), initialPlayer(PLAYER_NAMES[1], lives)];
+
+function keysFor(player: number, action: InputAction) {
+  return VERSUS_BINDINGS[player].keys[action].map(keyLabel).join(' / ');
+}
+
+// Split-screen match on one machine: each board has its own keys and gamepad, and drops send garbage across
+export default function Versus({ bubbleStyle, effects, reducedMotion, onExit }: Props) {
+  const [levelIndex, setLevelIndex] = useState(PLAYABLE[0].index);
+  const [startingLives, setStartingLives] = useState(VERSUS_LIVES[0]);
+  const [match, setMatch] = useState<{ key: number; seed: number } | null>(null);
+  const [players, setPlayers] = useState<Players>(() => newPlayers(startingLives));
+  const [result, setResult] = useState<VersusResult | null>(null);
+  const [paused, setPaused] = useState(false);
+
+  // Both boards report on their own loops, so the latest tallies live in a ref and state just mirrors them
+  const playersRef = useRef(players);
+  const overRef = useRef(false);
+
+  const level = useMemo(() => versusLevel(LEVELS[levelIndex]), [levelIndex]);
+  const buses = useMemo(() => [createEventBus(), createEventBus()], []);
+  // New inboxes each match, so rows sent as the last one ended don't carry over
+  const inboxes = useMemo(() => match && [createGarbageInbox(), createGarbageInbox()], [match]);
+  const live = !!match && !result;
+
+  const update = useCallback((i: number, change: (p: PlayerState) => PlayerState) => {
+    const next = playersRef.current.map((p, j) => j === i ? change(p) : p) as Players;
+    playersRef.current = next;
+    setPlayers(next);
+    return next;
+  }, []);
+
+  const endMatch = useCallback((winner: number, timeMs: number) => {
+    overRef.current = true;
+    setPaused(false);
+    setResult({ winner, players: playersRef.current, timeSec: timeMs / 1000 });
+  }, []);
+
+  const handleEvent = useCallback((i: number, e: GameEvent) => {
+    if (overRef.current || !inboxes) return;
+    switch (e.type) {
+      case 'landed':
+        update(i, p => ({ ...p, score: p.score + e.shot.points, stats: addShotStats(p.stats, shotStatsOf(e.shot)) }));
+        break;
+      // The engine takes the hint cost off its own score; keep the tally in step
+      case 'hint':
+        update(i, p => ({ ...p, score: p.score - e.cost }));
+        break;
+      case 'drop': {
+        const rows = garbageRowsFor(e.count);
+        if (!rows) break;
+        inboxes[1 - i].send(rows);
+        update(i, p => ({ ...p, garbageSent: p.garbageSent + rows }));
+        break;
+      }
+      // The first board to run out of lives at the danger line loses
+      case 'lifeLost':
+        if (update(i, p => ({ ...p, lives: Math.max(0, p.lives - 1) }))[i].lives === 0) endMatch(1 - i, e.timeMs);
+        break;
+      // Clearing a board outright takes the match
+      case 'win':
+        endMatch(i, e.timeMs);
+        break;
+    }
+  }, [endMatch, inboxes, update]);
+
+  useEffect(() => {
+    const unsubscribe = buses.map((bus, i) => bus.subscribe(e => handleEvent(i, e)));
+    return () => unsubscribe.forEach(off => off());
+  }, [buses, handleEvent]);
+
+  // One pause covers both boards
+  usePauseControls(live, paused, setPaused);
+
+  // Both boards get the same seed, so they start from the same layout and shot queue; the first board plays the music
+  const startMatch = () => {
+    const fresh = newPlayers(startingLives);
+    playersRef.current = fresh;
+    overRef.current = false;
+    setPlayers(fresh);
+    setResult(null);
+    setPaused(false);
+    setMatch(m => ({ key: (m?.key ?? 0) + 1, seed: randomSeed() }));
+  };
+
+  const backToSetup = () => {
+    setMatch(null);
+    setResult(null);
+  };
+
+  return (
+    <>
+      <div className="header">
+        <div className="title">Color Burst: Versus</div>
+        <div className="controls">
+          {live && <button className="button" onClick={() => setPaused(p => !p)}>{paused ? 'Resume' : 'Pause'}</button>}
+          {live && <button className="button secondary" onClick={backToSetup}>End Match</button>}
+          <button className="button secondary" onClick={onExit}>Back to Solo</button>
+        </div>
+      </div>
+
+      <div className="card">
+        {result ? <VersusSummary result={result} onRematch={startMatch} onSetup={backToSetup} /> : match && inboxes ? (
+          <div className="versusBoards">
+            {players.map((p, i) => (
+              <div key={i} className="versusPlayer">
+                <div className="controls">
+                  <div className="stat"><strong>{p.name}</strong></div>
+                  <div className="stat">Score: <strong>{p.score}</strong></div>
+                  <div className="stat">Lives: <strong>{p.lives}</strong></div>
+                  <div className="stat">Garbage Sent: <strong>{p.garbageSent}</strong></div>
+                </div>
+                <BubbleShooterCanvas
+                  key={`${match.key}:${i}`}
+                  level={level}
+                  seed={match.seed}
+                  lives={p.lives}
+                  bindings={VERSUS_BINDINGS[i]}
+                  gamepad={i}
+                  garbage={inboxes[i]}
+                  music={i === 0}
+                  bubbleStyle={bubbleStyle}
+                  effects={effects}
+                  reducedMotion={reducedMotion}
+                  paused={paused}
+                  bus={buses[i]}
+                />
+              </div>
+            ))}
+            {paused && <div className="pauseOverlay">
+              <div className="title">Paused</div>
+              <div className="controls">
+                <button className="button" onClick={() => setPaused(false)}>Resume</button>
+                <button className="button secondary" onClick={startMatch}>Restart Match</button>
+              </div>
+            </div>}
+          </div>
+        ) : (
+          <div className="summary">
+            <div className="title">Local Versus</div>
+            <div className="controls">
+              <select className="select" value={levelIndex} onChange={e => setLevelIndex(Number(e.target.value))}>
+                {PLAYABLE.map(({ level, index }) => <option key={level.level} value={index}>Level {level.level} · {level.difficulty}</option>)}
+              </select>
+              <select className="select" value={startingLives} onChange={e => setStartingLives(Number(e.target.value))}>
+                {VERSUS_LIVES.map(n => <option key={n} value={n}>{n === 1 ? '1 life' : `${n} lives`}</option>)}
+              </select>
+              <button className="button" onClick={startMatch}>Start Match</button>
+            </div>
+            <div className="summaryGrid">
+              {PLAYER_NAMES.map((name, i) => (
+                <div key={name} className="stat">
+                  <strong>{name}</strong>: aim {keysFor(i, 'aimLeft')} · {keysFor(i, 'aimRight')}, fire {keysFor(i, 'fire')},
+                  swap {keysFor(i, 'swap')}, gamepad {i + 1}
+                </div>
+              ))}
+            </div>
+            <div className="stat">
+              Every {GARBAGE_DROP_SIZE} bubbles you drop push a row onto your opponent. Reaching the danger line costs a life; the first
+              board out of lives loses.
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+import type { VersusResult } from '../lib/versus';
+import { accuracyOf } from '../lib/scoring';
+
+interface Props {
+  result: VersusResult;
+  onRematch: () => void;
+  onSetup: () => void;
+}
+
+export default function VersusSummary({ result, onRematch, onSetup }: Props) {
+  const minutes = Math.floor(result.timeSec / 60);
+  const seconds = String(Math.floor(result.timeSec % 60)).padStart(2, '0');
+  return (
+    <div className="summary">
+      <div className="title">{result.players[result.winner].name} Wins</div>
+      <div className="stat">Match Time: <strong>{minutes}:{seconds}</strong></div>
+      <div className="versusSummary">
+        {result.players.map((p, i) => (
+          <div key={i} className="summaryGrid">
+            <div className="stat"><strong>{p.name}</strong>{i === result.winner ? ' · winner' : ''}</div>
+            <div className="stat">Score: <strong>{p.score}</strong></div>
+            <div className="stat">Lives Left: <strong>{p.lives}</strong></div>
+            <div className="stat">Accuracy: <strong>{accuracyOf(p.stats)}%</strong></div>
+            <div className="stat">Best Chain: <strong>{p.stats.longestChain}</strong></div>
+            <div className="stat">Biggest Drop: <strong>{p.stats.largestDrop}</strong></div>
+            <div className="stat">Garbage Sent: <strong>{p.garbageSent}</strong></div>
+          </div>
+        ))}
+      </div>
+      <div className="controls">
+        <button className="button" onClick={onRematch}>Rematch</button>
+        <button className="button secondary" onClick={onSetup}>Change Setup</button>
+      </div>
+    </div>
+  );
+}
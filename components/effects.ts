@@ -0,0 +1,171 @@
+import type { Bubble } from '../lib/types';
+import { BUBBLE_RADIUS } from '../lib/engine';
+import type { EngineEvent, EngineState } from '../lib/engine';
+import type { EffectsQuality } from '../lib/accessibility';
+import { drawBubble } from './render';
+import type { BubbleStyle } from './render';
+
+// Purely cosmetic: effects copy what they need out of engine events and never touch the engine
+
+type EffectBubble = Pick<Bubble, 'x' | 'y' | 'color' | 'kind'>;
+
+interface Effect {
+  type: 'pop' | 'fall' | 'spark' | 'text';
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number;
+  life: number; // seconds
+  bubble?: EffectBubble;
+  text?: string;
+}
+
+export interface Effects {
+  quality: EffectsQuality;
+  reducedMotion: boolean; // no shake, sparks or travel; things fade where they are
+  items: Effect[];
+  shake: number; // seconds of shake left
+  appearing: Map<string, number>; // bubble id -> age of its grow-in
+  height: number;
+}
+
+const GRAVITY = 1400; // px/s^2
+const POP_SEC = 0.25;
+const SPARK_SEC = 0.45;
+const TEXT_SEC = 0.8;
+const APPEAR_SEC = 0.3;
+const SHAKE_SEC = 0.3;
+const SHAKE_PX = 6;
+const SPARKS_PER_POP = 5;
+const MAX_ITEMS: Record<EffectsQuality, number> = { high: 400, low: 120, off: 0 };
+
+export function createEffects(quality: EffectsQuality, reducedMotion: boolean): Effects {
+  return { quality, reducedMotion, items: [], shake: 0, appearing: new Map(), height: 0 };
+}
+
+const jitter = (spread: number) => (Math.random() - 0.5) * spread;
+
+function centroid(bubbles: EffectBubble[]) {
+  const x = bubbles.reduce((sum, b) => sum + b.x, 0) / bubbles.length;
+  const y = bubbles.reduce((sum, b) => sum + b.y, 0) / bubbles.length;
+  return { x, y };
+}
+
+function push(fx: Effects, effect: Omit<Effect, 'age'>) {
+  if (fx.items.length < MAX_ITEMS[fx.quality]) fx.items.push({ ...effect, age: 0 });
+}
+
+function pop(fx: Effects, b: EffectBubble) {
+  const bubble = { x: b.x, y: b.y, color: b.color, kind: b.kind };
+  push(fx, { type: 'pop', x: b.x, y: b.y, vx: 0, vy: 0, life: POP_SEC, bubble });
+  if (fx.quality !== 'high' || fx.reducedMotion) return;
+  for (let i = 0; i < SPARKS_PER_POP; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    const speed = 80 + Math.random() * 120;
+    push(fx, { type: 'spark', x: b.x, y: b.y, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed, life: SPARK_SEC, bubble });
+  }
+}
+
+function fall(fx: Effects, b: EffectBubble) {
+  const bubble = { x: b.x, y: b.y, color: b.color, kind: b.kind };
+  if (fx.reducedMotion) push(fx, { type: 'pop', x: b.x, y: b.y, vx: 0, vy: 0, life: POP_SEC * 2, bubble });
+  else push(fx, { type: 'fall', x: b.x, y: b.y, vx: jitter(80), vy: -Math.random() * 120, life: 2, bubble });
+}
+
+function scoreText(fx: Effects, bubbles: EffectBubble[], points: number) {
+  if (points <= 0 || !bubbles.length) return;
+  const { x, y } = centroid(bubbles);
+  push(fx, { type: 'text', x, y, vx: 0, vy: fx.reducedMotion ? 0 : -40, life: TEXT_SEC, text: `+${points}` });
+}
+
+/** Start whatever effects an engine event calls for. */
+export function addEventEffects(fx: Effects, e: EngineEvent, engine: EngineState) {
+  if (fx.quality === 'off') return;
+  fx.height = engine.height;
+  switch (e.type) {
+    case 'match':
+      e.bubbles.forEach(b => pop(fx, b));
+      scoreText(fx, e.bubbles, e.points);
+      break;
+    case 'blast':
+      e.bubbles.forEach(b => pop(fx, b));
+      if (!fx.reducedMotion) fx.shake = SHAKE_SEC;
+      break;
+    case 'drop':
+      e.bubbles.forEach(b => fall(fx, b));
+      scoreText(fx, e.bubbles, e.points);
+      break;
+    case 'newRow':
+      if (fx.reducedMotion) break;
+      for (const b of engine.grid[0]) if (b) fx.appearing.set(b.id, 0);
+      break;
+    case 'lifeLost':
+      fx.appearing.clear();
+      break;
+    case 'wave':
+      push(fx, { type: 'text', x: engine.width / 2, y: engine.height / 3, vx: 0, vy: 0, life: TEXT_SEC * 2, text: `Wave ${e.wave}` });
+      break;
+  }
+}
+
+export function updateEffects(fx: Effects, dt: number) {
+  fx.shake = Math.max(0, fx.shake - dt);
+  fx.appearing.forEach((age, id) => {
+    if (age + dt >= APPEAR_SEC) fx.appearing.delete(id);
+    else fx.appearing.set(id, age + dt);
+  });
+  fx.items = fx.items.filter(item => {
+    item.age += dt;
+    if (item.type === 'fall' || item.type === 'spark') item.vy += GRAVITY * dt;
+    item.x += item.vx * dt;
+    item.y += item.vy * dt;
+    const offscreen = item.type === 'fall' && item.y - BUBBLE_RADIUS > fx.height;
+    return item.age < item.life && !offscreen;
+  });
+}
+
+export function shakeOffset(fx: Effects) {
+  if (fx.shake <= 0) return { x: 0, y: 0 };
+  const mag = SHAKE_PX * (fx.shake / SHAKE_SEC);
+  return { x: jitter(mag * 2), y: jitter(mag * 2) };
+}
+
+// Bubbles in a freshly added row grow in from a point
+export function appearScale(fx: Effects, id: string) {
+  const age = fx.appearing.get(id);
+  return age === undefined ? 1 : 0.2 + 0.8 * (age / APPEAR_SEC);
+}
+
+export function drawEffects(ctx: CanvasRenderingContext2D, fx: Effects, style: BubbleStyle, shake: { x: number; y: number }) {
+  if (!fx.items.length) return;
+  ctx.save();
+  ctx.translate(shake.x, shake.y);
+  for (const item of fx.items) {
+    const t = item.age / item.life;
+    ctx.save();
+    switch (item.type) {
+      case 'pop':
+        ctx.globalAlpha = 1 - t;
+        drawBubble(ctx, { ...item.bubble!, x: item.x, y: item.y }, style, fx.reducedMotion ? 1 : 1 + t * 0.4);
+        break;
+      case 'fall':
+        drawBubble(ctx, { ...item.bubble!, x: item.x, y: item.y }, style);
+        break;
+      case 'spark':
+        ctx.globalAlpha = 1 - t;
+        drawBubble(ctx, { ...item.bubble!, kind: 'normal', x: item.x, y: item.y }, { ...style, glyphs: false }, 0.2);
+        break;
+      case 'text':
+        ctx.globalAlpha = 1 - t * t;
+        ctx.fillStyle = '#fde68a';
+        ctx.font = 'bold 16px ui-sans-serif, system-ui';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(item.text!, item.x, item.y);
+        break;
+    }
+    ctx.restore();
+  }
+  ctx.restore();
+}
@@ -0,0 +1,189 @@
+import type { Bubble, BubbleColor } from '../lib/types';
+import {
+  BUBBLE_DIAMETER, BUBBLE_RADIUS, POWERUPS, POWERUP_KINDS, castShot, descentSpeed, elapsedSec, goalProgress, gridToXY,
+  isAimBoosted, predictShot, shooterOrigin, shotsLeft,
+} from '../lib/engine';
+import type { EngineState } from '../lib/engine';
+import { COLOR_GLYPHS } from '../lib/accessibility';
+import { chainMultiplier } from '../lib/scoring';
+import type { PaletteName } from '../lib/accessibility';
+
+// Visual palette mapping; the colorblind sets follow Okabe-Ito and Paul Tol's schemes
+export const PALETTES: Record<PaletteName, Record<BubbleColor, string>> = {
+  standard: {
+    red: '#ef4444', blue: '#3b82f6', green: '#22c55e', yellow: '#eab308',
+    purple: '#a855f7', orange: '#fb923c', cyan: '#06b6d4', pink: '#ec4899', gray: '#475569'
+  },
+  okabeIto: {
+    red: '#d55e00', blue: '#0072b2', green: '#009e73', yellow: '#f0e442',
+    purple: '#cc79a7', orange: '#e69f00', cyan: '#56b4e9', pink: '#f5f5f5', gray: '#475569'
+  },
+  tol: {
+    red: '#ee6677', blue: '#4477aa', green: '#228833', yellow: '#ccbb44',
+    purple: '#aa3377', orange: '#ee7733', cyan: '#66ccee', pink: '#bbbbbb', gray: '#475569'
+  },
+  highContrast: {
+    red: '#ff1f1f', blue: '#1f5bff', green: '#00d13b', yellow: '#ffff00',
+    purple: '#b026ff', orange: '#ff8c00', cyan: '#00ffff', pink: '#ff69c8', gray: '#64748b'
+  },
+};
+
+export const COLOR_TO_HEX = PALETTES.standard;
+
+
+export interface BubbleStyle {
+  palette: PaletteName;
+  glyphs: boolean;
+}
+
+export const DEFAULT_BUBBLE_STYLE: BubbleStyle = { palette: 'standard', glyphs: false };
+
+export interface RenderOptions extends BubbleStyle {
+  reducedAim: boolean;
+  shake?: { x: number; y: number }; // board offset while an effect shakes it
+  bubbleScale?: (id: string) => number; // grow-in for bubbles that just appeared
+}
+
+const QUEUE_PREVIEW = 5; // upcoming shots drawn beside the shooter
+
+export function drawBubble(
+  ctx: CanvasRenderingContext2D, b: Pick<Bubble, 'x' | 'y' | 'color' | 'kind' | 'target'>, style = DEFAULT_BUBBLE_STYLE, scale = 1,
+) {
+  const color = PALETTES[style.palette][b.color];
+  ctx.save();
+  ctx.translate(b.x, b.y);
+  ctx.scale(scale, scale);
+  const grad = ctx.createRadialGradient(-6, -6, 4, 0, 0, BUBBLE_RADIUS);
+  grad.addColorStop(0, 'rgba(255,255,255,0.9)');
+  grad.addColorStop(0.15, color);
+  grad.addColorStop(1, '#0b1220');
+  ctx.fillStyle = grad;
+  ctx.beginPath();
+  ctx.arc(0, 0, BUBBLE_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+  // Power-ups always show their mark; plain bubbles show their color's glyph when enabled
+  const label = b.kind !== 'normal' ? POWERUPS[b.kind].icon : style.glyphs ? COLOR_GLYPHS[b.color] : '';
+  if (label) {
+    ctx.font = 'bold 14px ui-sans-serif, system-ui';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(2,6,23,0.7)';
+    ctx.strokeText(label, 0, 1);
+    ctx.fillStyle = 'rgba(255,255,255,0.95)';
+    ctx.fillText(label, 0, 1);
+  }
+  if (b.color === 'gray') {
+    ctx.strokeStyle = 'rgba(15,23,42,0.9)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(0, 0, BUBBLE_RADIUS - 2, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  if (b.target) {
+    // Dashed gold ring marks a rescue target
+    ctx.strokeStyle = '#facc15';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.arc(0, 0, BUBBLE_RADIUS - 1.5, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// Follow the predicted path for `reveal` px; a fully revealed path also ghosts the landing cell
+function drawGuide(ctx: CanvasRenderingContext2D, engine: EngineState, reveal: number, style: BubbleStyle) {
+  const { points, contact, cell } = predictShot(engine);
+  ctx.save();
+  ctx.globalAlpha = 0.5;
+  ctx.strokeStyle = '#38bdf8';
+  ctx.setLineDash([6, 6]);
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  let remaining = reveal;
+  for (let i = 1; i < points.length && remaining > 0; i++) {
+    const from = points[i - 1], to = points[i];
+    const len = Math.hypot(to.x - from.x, to.y - from.y);
+    const t = Math.min(1, remaining / len);
+    ctx.lineTo(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+    remaining -= len;
+  }
+  ctx.stroke();
+  ctx.restore();
+
+  const loaded = engine.nextQueue[0];
+  if (remaining >= 0 && contact && cell && loaded && !engine.moving) {
+    ctx.save();
+    ctx.globalAlpha = 0.35;
+    drawBubble(ctx, { ...loaded, ...gridToXY(engine, cell.r, cell.c) }, style);
+    ctx.restore();
+  }
+}
+
+// A hint traces its whole path in gold and rings the cell it lands in; it follows the board as it sinks
+function drawHint(ctx: CanvasRenderingContext2D, engine: EngineState) {
+  if (!engine.hint || engine.moving) return;
+  const { points, cell } = castShot(engine, shooterOrigin(engine), engine.hint.angle, descentSpeed(engine));
+  ctx.save();
+  ctx.globalAlpha = 0.85;
+  ctx.strokeStyle = '#facc15';
+  ctx.lineWidth = 3;
+  ctx.setLineDash([3, 7]);
+  ctx.beginPath();
+  points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+  if (cell) {
+    const { x, y } = gridToXY(engine, cell.r, cell.c);
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.arc(x, y, BUBBLE_RADIUS + 2, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// The loaded shot sits on the shooter; the next few trail off to its left at reduced size
+function drawQueue(ctx: CanvasRenderingContext2D, engine: EngineState, style: BubbleStyle) {
+  const { x, y } = shooterOrigin(engine);
+  const [loaded, ...rest] = engine.nextQueue;
+  if (loaded) drawBubble(ctx, { ...loaded, x, y }, style);
+  rest.slice(0, QUEUE_PREVIEW).forEach((cell, i) => {
+    drawBubble(ctx, { ...cell, x: x - BUBBLE_DIAMETER - 4 - i * 24, y: y + 4 }, style, 0.6);
+  });
+}
+
+function drawHud(ctx: CanvasRenderingContext2D, engine: EngineState) {
+  const { timeLimitSec } = engine.level;
+  ctx.save();
+  ctx.font = 'bold 14px ui-sans-serif, system-ui';
+  ctx.fillStyle = '#e2e8f0';
+  const lines = [`Score: ${engine.score}`, goalProgress(engine)];
+  if (engine.level.puzzle) lines.push(`Shots left: ${shotsLeft(engine)}`);
+  if (engine.comboChain > 1) lines.push(`Chain ${engine.comboChain} ×${chainMultiplier(engine.scoring, engine.comboChain)}`);
+  if (timeLimitSec) lines.push(`Time: ${Math.max(0, Math.ceil(timeLimitSec - elapsedSec(engine)))}s`);
+  for (const kind of POWERUP_KINDS) {
+    const until = engine.power[kind];
+    if (until && engine.timeMs < until) lines.push(`${POWERUPS[kind].icon} ${POWERUPS[kind].name}: ${Math.ceil((until - engine.timeMs) / 1000)}s`);
+  }
+  lines.forEach((line, i) => ctx.fillText(line, 12, 20 + i * 20));
+  ctx.restore();
+}
+
+// One full frame of the board; used by the live canvas and the replay viewer alike
+export function drawFrame(ctx: CanvasRenderingContext2D, engine: EngineState, opts: RenderOptions) {
+  ctx.clearRect(0, 0, engine.width, engine.height);
+  drawGuide(ctx, engine, isAimBoosted(engine) ? Infinity : opts.reducedAim ? 60 : 220, opts);
+  drawHint(ctx, engine);
+  ctx.save();
+  if (opts.shake) ctx.translate(opts.shake.x, opts.shake.y);
+  for (const row of engine.grid) {
+    for (const b of row) {
+      if (b) drawBubble(ctx, b, opts, opts.bubbleScale?.(b.id) ?? 1);
+    }
+  }
+  if (engine.moving) drawBubble(ctx, engine.moving, opts);
+  ctx.restore();
+  drawQueue(ctx, engine, opts);
+  drawHud(ctx, engine);
+}
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+
+/**
+ * While `active`, Escape toggles the pause and hiding the tab pauses; resuming is left to the player.
+ * Escape pressed in a form field is left to the field.
+ */
+export function usePauseControls(active: boolean, paused: boolean, setPaused: (paused: boolean) => void) {
+  useEffect(() => {
+    if (!active) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape' || (e.target instanceof HTMLElement && e.target.closest('input, textarea, select'))) return;
+      setPaused(!paused);
+    };
+    const onVisibility = () => { if (document.hidden) setPaused(true); };
+    window.addEventListener('keydown', onKey);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, [active, paused, setPaused]);
+}
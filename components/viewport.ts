@@ -0,0 +1,37 @@
+import type { Point } from '../lib/engine';
+
+// Maps the fixed logical board onto a canvas of any CSS size: uniformly scaled, centered,
+// and backed by device pixels so it stays sharp on high-density screens
+export interface Viewport {
+  scale: number; // CSS px per board px
+  offsetX: number; // CSS px from the canvas edge to the board
+  offsetY: number;
+}
+
+/**
+ * Size the canvas backing store to its displayed size at the current pixel ratio, clear it,
+ * and leave the context drawing in board coordinates. Call once per frame before drawing.
+ */
+export function fitCanvas(ctx: CanvasRenderingContext2D, boardW: number, boardH: number): Viewport {
+  const canvas = ctx.canvas;
+  const dpr = window.devicePixelRatio || 1;
+  const cssW = canvas.clientWidth || boardW;
+  const cssH = canvas.clientHeight || boardH;
+  const w = Math.round(cssW * dpr);
+  const h = Math.round(cssH * dpr);
+  // Assigning a size clears and resets the canvas, so only do it when something changed
+  if (canvas.width !== w) canvas.width = w;
+  if (canvas.height !== h) canvas.height = h;
+  const scale = Math.min(cssW / boardW, cssH / boardH);
+  const view = { scale, offsetX: (cssW - boardW * scale) / 2, offsetY: (cssH - boardH * scale) / 2 };
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, w, h);
+  ctx.setTransform(dpr * scale, 0, 0, dpr * scale, dpr * view.offsetX, dpr * view.offsetY);
+  return view;
+}
+
+// A pointer position in board coordinates, through the same transform the board was drawn with
+export function toBoard(view: Viewport, canvas: HTMLCanvasElement, clientX: number, clientY: number): Point {
+  const rect = canvas.getBoundingClientRect();
+  return { x: (clientX - rect.left - view.offsetX) / view.scale, y: (clientY - rect.top - view.offsetY) / view.scale };
+}
@@ -0,0 +1,72 @@
+import type { BubbleColor } from './types';
+import { GOAL_NAMES } from './engine';
+import type { EngineEvent, LoseCause } from './engine';
+
+export type PaletteName = 'standard' | 'okabeIto' | 'tol' | 'highContrast';
+export type MotionPreference = 'system' | 'reduce' | 'full';
+export type EffectsQuality = 'high' | 'low' | 'off';
+
+export interface AccessibilitySettings {
+  palette: PaletteName;
+  glyphs: boolean; // draw a shape on every bubble so colors never have to be told apart by hue
+  motion: MotionPreference;
+  announce: boolean; // screen-reader live region
+  effects: EffectsQuality; // pops, falls and shake; lower it on slow devices
+}
+
+export const PALETTE_LABELS: Record<PaletteName, string> = {
+  standard: 'Standard', okabeIto: 'Colorblind safe (Okabe-Ito)', tol: 'Colorblind safe (Tol)', highContrast: 'High contrast',
+};
+
+export const EFFECTS_LABELS: Record<EffectsQuality, string> = { high: 'Full', low: 'Light (no particles)', off: 'Off' };
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  palette: 'standard', glyphs: false, motion: 'system', announce: true, effects: 'high',
+};
+
+// One shape per color; used on the canvas and in the header legend so both read the same
+export const COLOR_GLYPHS: Record<BubbleColor, string> = {
+  red: '▲', blue: '■', green: '●', yellow: '◆', purple: '♣', orange: '✚', cyan: '▼', pink: '♥', gray: '',
+};
+
+export function resolveAccessibility(saved?: Partial<AccessibilitySettings>): AccessibilitySettings {
+  return { ...DEFAULT_ACCESSIBILITY, ...saved };
+}
+
+export function systemPrefersReducedMotion() {
+  return typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+}
+
+export function isReducedMotion(settings: AccessibilitySettings) {
+  return settings.motion === 'reduce' || (settings.motion === 'system' && systemPrefersReducedMotion());
+}
+
+const LOSE_CAUSE_TEXT: Record<LoseCause, string> = {
+  danger: 'bubbles reached the danger line', timer: 'time ran out', shots: 'out of shots', overflow: 'no room left for the shot',
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Aim relative to straight up, as it would be read out
+function describeAim(angle: number) {
+  const deg = Math.round(((angle + Math.PI / 2) * 180) / Math.PI);
+  return deg === 0 ? 'straight up' : `${Math.abs(deg)} degrees ${deg < 0 ? 'left' : 'right'}`;
+}
+
+// Screen-reader text for an engine event; routine events (shots, power-up timers) stay quiet
+export function describeEvent(e: EngineEvent): string | null {
+  switch (e.type) {
+    case 'match': return `Matched ${plural(e.count, 'bubble')}`;
+    case 'blast': return `Bomb cleared ${plural(e.count, 'bubble')}`;
+    case 'drop': return `${plural(e.count, 'bubble')} dropped`;
+    case 'hint':
+      if (!e.hint) return 'No shot clears anything with this bubble. Try swapping';
+      return `Hint: aim ${describeAim(e.hint.angle)} to clear ${plural(e.hint.cleared + e.hint.dropped, 'bubble')}. ${e.left} left`;
+    case 'wave': return `Wave ${e.wave}`;
+    case 'lifeLost':
+      return `Life lost: ${LOSE_CAUSE_TEXT[e.cause]}`;
+    case 'win':
+      return `Level complete. ${GOAL_NAMES[e.result.goal]}, ${e.result.stars} of 3 stars, ${e.result.levelScore} points`;
+    default: return null;
+  }
+}
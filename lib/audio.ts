@@ -0,0 +1,153 @@
+// Procedural sound: one WebAudio context with master, effects and music buses.
+// Everything is synthesized, so there are no assets to load.
+
+export interface AudioMix {
+  muted: boolean;
+  master: number; // 0..1
+  sfx: number;
+  music: number;
+}
+
+export const DEFAULT_AUDIO: AudioMix = { muted: false, master: 0.8, sfx: 0.8, music: 0.4 };
+
+export function resolveAudio(saved?: Partial<AudioMix>): AudioMix {
+  const level = (v: unknown, fallback: number) => typeof v === 'number' && v >= 0 && v <= 1 ? v : fallback;
+  return {
+    muted: typeof saved?.muted === 'boolean' ? saved.muted : DEFAULT_AUDIO.muted,
+    master: level(saved?.master, DEFAULT_AUDIO.master),
+    sfx: level(saved?.sfx, DEFAULT_AUDIO.sfx),
+    music: level(saved?.music, DEFAULT_AUDIO.music),
+  };
+}
+
+interface Buses {
+  ctx: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+}
+
+let buses: Buses | null = null;
+let mix = DEFAULT_AUDIO;
+
+// Created on first use; browsers keep it suspended until the page has seen a gesture
+function audio(): Buses | null {
+  if (typeof window === 'undefined' || !window.AudioContext) return null;
+  if (!buses) {
+    const ctx = new AudioContext();
+    const master = ctx.createGain();
+    const sfx = ctx.createGain();
+    const music = ctx.createGain();
+    sfx.connect(master);
+    music.connect(master);
+    master.connect(ctx.destination);
+    buses = { ctx, master, sfx, music };
+    applyMix();
+    const unlock = () => { void ctx.resume(); };
+    window.addEventListener('pointerdown', unlock, { once: true });
+    window.addEventListener('keydown', unlock, { once: true });
+  }
+  if (buses.ctx.state === 'suspended') void buses.ctx.resume();
+  return buses;
+}
+
+function applyMix() {
+  if (!buses) return;
+  const now = buses.ctx.currentTime;
+  buses.master.gain.setTargetAtTime(mix.muted ? 0 : mix.master, now, 0.02);
+  buses.sfx.gain.setTargetAtTime(mix.sfx, now, 0.02);
+  buses.music.gain.setTargetAtTime(mix.music, now, 0.02);
+}
+
+export function setAudioMix(next: AudioMix) {
+  mix = next;
+  applyMix();
+}
+
+// One enveloped oscillator note; `to` glides the pitch over the note
+function tone(bus: GainNode, type: OscillatorType, freq: number, start: number, length: number, volume: number, to?: number) {
+  const ctx = bus.context;
+  const osc = ctx.createOscillator();
+  const env = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, start);
+  if (to) osc.frequency.exponentialRampToValueAtTime(to, start + length);
+  env.gain.setValueAtTime(0.0001, start);
+  env.gain.exponentialRampToValueAtTime(volume, start + 0.01);
+  env.gain.exponentialRampToValueAtTime(0.0001, start + length);
+  osc.connect(env);
+  env.connect(bus);
+  osc.start(start);
+  osc.stop(start + length + 0.02);
+}
+
+// Silent buses skip all work, so a muted game never creates a context
+function sfxBus() {
+  if (mix.muted || mix.master === 0 || mix.sfx === 0) return null;
+  return audio();
+}
+
+export function playPop(rate = 1) {
+  const a = sfxBus();
+  if (!a) return;
+  tone(a.sfx, 'sine', 520 * rate, a.ctx.currentTime, 0.12, 0.3, 260 * rate);
+}
+
+export function playCombo(n = 1) {
+  const a = sfxBus();
+  if (!a) return;
+  for (let i = 0; i <= n; i++) tone(a.sfx, 'triangle', 440 * Math.pow(2, (i * 4) / 12), a.ctx.currentTime + i * 0.06, 0.15, 0.25);
+}
+
+export function playLose() {
+  const a = sfxBus();
+  if (!a) return;
+  tone(a.sfx, 'sawtooth', 300, a.ctx.currentTime, 0.5, 0.2, 80);
+}
+
+export function playWin() {
+  const a = sfxBus();
+  if (!a) return;
+  [523.25, 659.25, 783.99, 1046.5].forEach((f, i) => tone(a.sfx, 'triangle', f, a.ctx.currentTime + i * 0.1, 0.3, 0.3));
+}
+
+// Music: a looping arpeggio over a bass line, scheduled slightly ahead of the clock.
+// Tension (0..1, how close the board is to the danger line) raises the tempo.
+const SCALE = [220, 261.63, 293.66, 329.63, 392, 440, 523.25, 587.33]; // A minor pentatonic
+const ARPEGGIO = [0, 2, 4, 5, 7, 5, 4, 2];
+const BASS = [110, 110, 87.31, 98];
+const MIN_BPM = 84;
+const MAX_BPM = 168;
+const LOOKAHEAD_SEC = 0.12;
+
+let musicTimer: ReturnType<typeof setInterval> | null = null;
+let tension = 0;
+let nextNote = 0;
+let noteIndex = 0;
+
+function scheduleMusic() {
+  const a = mix.muted || mix.master === 0 || mix.music === 0 ? null : audio();
+  if (!a) return;
+  const stepSec = 60 / (MIN_BPM + (MAX_BPM - MIN_BPM) * tension * tension) / 2;
+  if (nextNote < a.ctx.currentTime) nextNote = a.ctx.currentTime + 0.05;
+  while (nextNote < a.ctx.currentTime + LOOKAHEAD_SEC) {
+    tone(a.music, 'triangle', SCALE[ARPEGGIO[noteIndex % ARPEGGIO.length]], nextNote, stepSec * 0.9, 0.12);
+    if (noteIndex % 4 === 0) tone(a.music, 'sine', BASS[(noteIndex / 4) % BASS.length], nextNote, stepSec * 3.5, 0.2);
+    nextNote += stepSec;
+    noteIndex++;
+  }
+}
+
+export function setMusicPlaying(on: boolean) {
+  if (on && !musicTimer) {
+    musicTimer = setInterval(scheduleMusic, 25);
+    scheduleMusic();
+  } else if (!on && musicTimer) {
+    clearInterval(musicTimer);
+    musicTimer = null;
+  }
+}
+
+export function setMusicTension(value: number) {
+  tension = Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,96 @@
+import {
+  BUBBLE_RADIUS, MAX_AIM_ANGLE, MIN_AIM_ANGLE, POWERUPS, castShot, dangerLine, dangerProximity, descentSpeed, neighbors,
+  previewSnap, shooterOrigin,
+} from './engine';
+import type { Cell, EngineInput, EngineState, QueuedShot } from './engine';
+import { createRng, random } from './rng';
+
+// A computer player for balancing runs. For every candidate aim it predicts the landing cell
+// with the same cast the aim guide uses, plays the snap out on a copy of the board as hints
+// do, and picks the shot whose result scores best.
+
+export interface BotOptions {
+  angles: number; // candidate aims spread across the firing arc
+  aimError: number; // rad of random error on each shot, to stand in for a less precise player
+  shotIntervalSec: number; // minimum time between shots, since no person fires the instant a shot lands
+  considerSwap: boolean; // also try the next queued shot
+}
+
+export const DEFAULT_BOT: BotOptions = { angles: 96, aimError: 0, shotIntervalSec: 1, considerSwap: true };
+
+export interface BotMove {
+  angle: number;
+  swap: boolean;
+  score: number;
+}
+
+// Heuristic weights; only their ratios matter
+const CLEAR_WEIGHT = 10;
+const DROP_WEIGHT = 15;
+const TARGET_WEIGHT = 40;
+const POWER_WEIGHT = 20; // timed power-ups, worth more the closer the danger line
+const NEIGHBOR_WEIGHT = 4; // a miss next to its own color sets up a later match
+const MISS_PENALTY = 25;
+const DEPTH_PENALTY = 30; // a miss landing near the danger line
+const BOUNCE_PENALTY = 0.5; // all else equal, prefer the direct shot
+
+// How good it would be for `shot` to snap into `cell` right now
+function evaluate(state: EngineState, shot: QueuedShot, cell: Cell) {
+  const preview = previewSnap(state, shot, cell);
+  if (!preview) return -Infinity;
+  const { board, bubble, hit, cleared, dropped } = preview;
+  if (!hit) {
+    const alike = neighbors(board, bubble.row, bubble.col).filter(n => n.b && n.b.color === bubble.color).length;
+    const depth = (bubble.y + BUBBLE_RADIUS) / dangerLine(board);
+    return alike * NEIGHBOR_WEIGHT - MISS_PENALTY - depth * DEPTH_PENALTY;
+  }
+  const freed = [...cleared, ...dropped].filter(b => b.target).length;
+  const timed = shot.kind !== 'normal' && POWERUPS[shot.kind].durationMs ? POWER_WEIGHT * (1 + dangerProximity(state)) : 0;
+  return cleared.length * CLEAR_WEIGHT + dropped.length * DROP_WEIGHT + freed * TARGET_WEIGHT + timed;
+}
+
+/** The best aim for the loaded shot, or for the next one after a swap; null when nothing can be fired. */
+export function chooseMove(state: EngineState, opts: BotOptions = DEFAULT_BOT): BotMove | null {
+  const [loaded, next] = state.nextQueue;
+  if (!loaded) return null;
+  const shots = opts.considerSwap && next ? [loaded, next] : [loaded];
+  const origin = shooterOrigin(state);
+  const descent = descentSpeed(state);
+  let best: BotMove | null = null;
+  // Many aims share a landing cell, so each (shot, cell) pair is only played out once
+  const scores = new Map<string, number>();
+  for (let i = 0; i < opts.angles; i++) {
+    const angle = MIN_AIM_ANGLE + ((MAX_AIM_ANGLE - MIN_AIM_ANGLE) * (i + 0.5)) / opts.angles;
+    const { cell, points } = castShot(state, origin, angle, descent);
+    if (!cell) continue;
+    const bounces = Math.max(0, points.length - 2);
+    for (let s = 0; s < shots.length; s++) {
+      const key = `${s}:${cell.r}:${cell.c}`;
+      let score = scores.get(key);
+      if (score === undefined) scores.set(key, score = evaluate(state, shots[s], cell));
+      score -= bounces * BOUNCE_PENALTY;
+      if (!best || score > best.score) best = { angle, swap: s === 1, score };
+    }
+  }
+  return best;
+}
+
+export interface Bot {
+  /** Input for the next engine step: a full move once the board is ready for a shot, otherwise nothing. */
+  input: (state: EngineState) => EngineInput;
+}
+
+export function createBot(seed: number, opts: BotOptions = DEFAULT_BOT): Bot {
+  const rng = createRng(seed); // kept apart from the engine's, so aim error doesn't change the board
+  let lastShotMs = -Infinity;
+  return {
+    input(state) {
+      if (state.moving || state.status !== 'playing' || state.timeMs - lastShotMs < opts.shotIntervalSec * 1000) return {};
+      const move = chooseMove(state, opts);
+      if (!move) return {};
+      lastShotMs = state.timeMs;
+      const error = opts.aimError ? (random(rng) * 2 - 1) * opts.aimError : 0;
+      return { aimAngle: move.angle + error, swap: move.swap, shoot: true };
+    },
+  };
+}
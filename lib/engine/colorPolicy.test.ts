@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { boardColors, colorWeights, pickShotColor } from './colorPolicy';
+import { createEngine } from '.';
+import type { ColorPolicy } from '../types';
+import { parseLevelFile } from '../levelFormat';
+
+// An authored 8-column board in the red, blue, green, yellow palette
+function boardOf(layout: string[], colorPolicy?: ColorPolicy) {
+  return createEngine(parseLevelFile({
+    version: 1, level: 1, difficulty: 'Easy', colorsCount: 4, descentSpeed: 0, startingPattern: 'simple',
+    unbreakableGrayCount: 0, randomColorChance: 0, cols: 8, layout, colorPolicy,
+  }), 7);
+}
+
+test('board colors skip grays and rainbows', () => {
+  const state = boardOf(['R # G* B . . . .']);
+  assert.deepEqual(boardColors(state), ['red', 'blue']);
+});
+
+test('uniform weighs the whole palette evenly', () => {
+  const state = boardOf(['R . . . . . . .']);
+  assert.deepEqual(colorWeights(state, 'uniform'), [1, 1, 1, 1]);
+});
+
+test('present only weighs colors still on the board', () => {
+  const state = boardOf(['R . Y . . . . .']);
+  assert.deepEqual(state.colors, ['red', 'blue', 'green', 'yellow']);
+  assert.deepEqual(colorWeights(state, 'present'), [1, 0, 0, 1]);
+});
+
+test('adjacent favors reachable colors and keeps buried ones at the minimum', () => {
+  // The blue in the corner is walled in by yellows, so no shot can touch it
+  const state = boardOf([
+    'B Y R . . . . .',
+    'Y Y . . . . .',
+  ]);
+  const [red, blue, green, yellow] = colorWeights(state, 'adjacent');
+  assert.equal(blue, 1);
+  assert.equal(green, 0);
+  assert.ok(red > 1);
+  assert.ok(yellow > red);
+});
+
+test('shots only come in colors left on the board under present', () => {
+  const state = boardOf(['G . G . . . . .'], 'present');
+  for (let i = 0; i < 50; i++) assert.equal(pickShotColor(state), 'green');
+  assert.ok(state.nextQueue.every(s => s.color === 'green'));
+});
+
+test('a board with no colors left falls back to the whole palette', () => {
+  const state = boardOf(['# . . . . . . .'], 'present');
+  const picked = new Set(Array.from({ length: 200 }, () => pickShotColor(state)));
+  assert.deepEqual([...picked].sort(), [...state.colors].sort());
+});
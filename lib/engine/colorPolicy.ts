@@ -0,0 +1,60 @@
+import type { BubbleColor, ColorPolicy } from '../types';
+import { pickWeighted } from '../rng';
+import { neighbors, rowLength } from './grid';
+import type { Cell, EngineState } from './types';
+
+export function colorPolicyOf(state: EngineState): ColorPolicy {
+  return state.level.colorPolicy ?? 'present';
+}
+
+// Palette colors that still have a bubble on the board; rainbows stand in for any color so they don't count
+export function boardColors(state: EngineState): BubbleColor[] {
+  const seen = new Set<BubbleColor>();
+  for (const row of state.grid) {
+    for (const b of row) if (b && b.color !== 'gray' && b.kind !== 'rainbow') seen.add(b.color);
+  }
+  return state.colors.filter(c => seen.has(c));
+}
+
+// Empty cells a shot can travel through, flooded up from the bottom row of the grid
+function reachableEmpty(state: EngineState): Cell[] {
+  const grid = state.grid;
+  const seen = new Set<string>();
+  const cells: Cell[] = [];
+  const stack: Cell[] = [];
+  const last = grid.length - 1;
+  for (let c = 0; c < rowLength(state, last); c++) if (!grid[last][c]) stack.push({ r: last, c });
+  while (stack.length) {
+    const cur = stack.pop()!;
+    const k = cur.r + ':' + cur.c;
+    if (seen.has(k)) continue;
+    seen.add(k);
+    cells.push(cur);
+    for (const n of neighbors(state, cur.r, cur.c)) if (!n.b) stack.push({ r: n.r, c: n.c });
+  }
+  return cells;
+}
+
+/**
+ * Relative chance of each palette color (same order as state.colors) under `policy`.
+ * 'adjacent' counts how many bubbles of a color touch a cell a shot can reach.
+ */
+export function colorWeights(state: EngineState, policy: ColorPolicy): number[] {
+  if (policy === 'uniform') return state.colors.map(() => 1);
+  const present = boardColors(state);
+  if (policy === 'present') return state.colors.map(c => present.includes(c) ? 1 : 0);
+
+  const touching = new Map<BubbleColor, number>();
+  for (const { r, c } of reachableEmpty(state)) {
+    for (const n of neighbors(state, r, c)) {
+      if (n.b && n.b.color !== 'gray') touching.set(n.b.color, (touching.get(n.b.color) ?? 0) + 1);
+    }
+  }
+  // Present but buried colors keep a small share so they can still be dug out
+  return state.colors.map(c => present.includes(c) ? 1 + (touching.get(c) ?? 0) : 0);
+}
+
+// An empty board (or only grays left) has no weights, so the whole palette is used
+export function pickShotColor(state: EngineState): BubbleColor {
+  return pickWeighted(state.rng, state.colors, colorWeights(state, colorPolicyOf(state)));
+}
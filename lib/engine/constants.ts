@@ -0,0 +1,28 @@
+// Grid constants
+export const BUBBLE_RADIUS = 16;
+export const BUBBLE_DIAMETER = BUBBLE_RADIUS * 2;
+export const ROW_V_SPACING = Math.sqrt(3) * BUBBLE_RADIUS * 0.98; // hex vertical spacing
+export const COL_H_SPACING = BUBBLE_DIAMETER * 0.98;
+export const MIN_COLS = 8;
+export const MAX_COLS = 12;
+export const MAX_ROWS = 18;
+export const BOARD_ASPECT = 4 / 3; // logical board height per unit of width
+
+// Shooter
+export const SHOOT_SPEED = 520; // px/s
+export const MAX_AIM_BOUNCES = 6;
+export const SHOOTER_MARGIN = 8; // gap between the shooter bubble and the bottom edge
+export const QUEUE_LENGTH = 6; // random queues are topped up to this many shots
+export const MIN_AIM_ANGLE = -Math.PI + 0.1;
+export const MAX_AIM_ANGLE = -0.1;
+
+// Simulation
+export const TICK_SEC = 1 / 60; // fixed step, so recorded inputs replay identically
+export const MAX_FRAME_SEC = 0.25; // real time dropped after a long stall instead of fast-forwarding
+
+// Rules
+export const DANGER_MARGIN = 64; // distance of the danger line from the bottom edge
+export const MATCH_SIZE = 3;
+export const DEFAULT_HINTS = 3; // per level, unless the level sets its own
+export const DEFAULT_HINT_COST = 50; // points
+export const HINT_ANGLES = 120; // aims tried when searching for a hint
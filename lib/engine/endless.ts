@@ -0,0 +1,46 @@
+import type { EndlessCurve, LevelConfig } from '../types';
+
+export const DEFAULT_ENDLESS: EndlessCurve = {
+  waveSec: 45,
+  waveScore: 1500,
+  rampWaves: 16,
+  curve: 1.4,
+  descentSpeed: [4, 14],
+  colorsCount: [3, 7],
+  grayChance: [0, 0.12],
+  randomColorChance: [0, 0.2],
+};
+
+export const ENDLESS_REFILL_ROWS = 4; // fed in at once when an endless board is emptied
+
+export function resolveEndless(level: LevelConfig): EndlessCurve | null {
+  return level.endless ? { ...DEFAULT_ENDLESS, ...level.endless } : null;
+}
+
+// 0 on the first wave, 1 once the ramp is complete
+export function rampAt(curve: EndlessCurve, wave: number) {
+  return Math.min(1, Math.max(0, wave - 1) / curve.rampWaves) ** curve.curve;
+}
+
+export interface WaveSettings {
+  descentSpeed: number;
+  colorsCount: number;
+  grayChance: number;
+  randomColorChance: number;
+}
+
+export function waveSettings(curve: EndlessCurve, wave: number): WaveSettings {
+  const t = rampAt(curve, wave);
+  const lerp = ([first, full]: [number, number]) => first + (full - first) * t;
+  return {
+    descentSpeed: lerp(curve.descentSpeed),
+    colorsCount: Math.round(lerp(curve.colorsCount)),
+    grayChance: lerp(curve.grayChance),
+    randomColorChance: lerp(curve.randomColorChance),
+  };
+}
+
+// The wave due at this point of a run; the engine keeps the highest reached, so points spent on hints never lose a wave
+export function waveFor(curve: EndlessCurve, elapsedSec: number, score: number) {
+  return 1 + Math.max(Math.floor(elapsedSec / curve.waveSec), Math.floor(score / curve.waveScore));
+}
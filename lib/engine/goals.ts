@@ -0,0 +1,90 @@
+import type { Bubble, GoalType, LevelGoal } from '../types';
+import { randomInt } from '../rng';
+import type { EngineState } from './types';
+
+export const GOAL_NAMES: Record<GoalType, string> = {
+  clear: 'Board cleared', score: 'Score reached', drop: 'Drop target reached', rescue: 'Targets rescued', survive: 'Survived',
+};
+
+export function levelGoal(state: EngineState): LevelGoal {
+  return state.level.goal ?? { type: 'clear' };
+}
+
+// Seconds since the current board was dealt; survive goals restart with each life
+export function boardSec(state: EngineState) {
+  return (state.timeMs - state.boardStartMs) / 1000;
+}
+
+function countBubbles(state: EngineState, test: (b: Bubble) => boolean) {
+  let n = 0;
+  for (const row of state.grid) {
+    for (const b of row) if (b && test(b)) n++;
+  }
+  return n;
+}
+
+const isColored = (b: Bubble) => b.color !== 'gray';
+const isTarget = (b: Bubble) => !!b.target;
+
+// Generated boards have no authored targets, so rescue levels mark random colored bubbles
+export function markTargets(state: EngineState) {
+  const goal = levelGoal(state);
+  if (goal.type !== 'rescue' || !goal.count || countBubbles(state, isTarget) > 0) return;
+  const pool = state.grid.flat().filter((b): b is Bubble => !!b && isColored(b));
+  for (let i = 0; i < goal.count && pool.length; i++) {
+    pool.splice(randomInt(state.rng, pool.length), 1)[0].target = true;
+  }
+}
+
+/** The objective met this step, if any. Clearing the board wins whatever the goal; endless runs never win. */
+export function metGoal(state: EngineState): GoalType | null {
+  if (state.endless) return null;
+  const goal = levelGoal(state);
+  if (goal.type === 'score' && state.score >= goal.target) return 'score';
+  if (goal.type === 'drop' && state.dropped >= goal.target) return 'drop';
+  if (goal.type === 'rescue' && countBubbles(state, isTarget) === 0) return 'rescue';
+  if (goal.type === 'survive' && boardSec(state) >= goal.seconds) return 'survive';
+  return countBubbles(state, isColored) === 0 ? 'clear' : null;
+}
+
+// Shots left on this board, or null when shots are unlimited
+export function shotsLeft(state: EngineState) {
+  if (state.level.puzzle) return state.nextQueue.length;
+  const goal = levelGoal(state);
+  return goal.type === 'score' && goal.shots !== undefined ? Math.max(0, goal.shots - state.boardShots) : null;
+}
+
+// Checked only once the last shot has settled, so it still gets to score
+export function isOutOfShots(state: EngineState) {
+  return !state.moving && shotsLeft(state) === 0;
+}
+
+export function goalProgress(state: EngineState): string {
+  if (state.endless) return `Wave ${state.wave}`;
+  const goal = levelGoal(state);
+  switch (goal.type) {
+    case 'score': {
+      const text = `Score ${Math.min(state.score, goal.target)}/${goal.target}`;
+      return goal.shots === undefined ? text : `${text} - ${shotsLeft(state)} shots left`;
+    }
+    case 'drop':
+      return `Dropped ${Math.min(state.dropped, goal.target)}/${goal.target}`;
+    case 'rescue':
+      return `Targets left: ${countBubbles(state, isTarget)}`;
+    case 'survive':
+      return `Survive: ${Math.max(0, Math.ceil(goal.seconds - boardSec(state)))}s`;
+    default:
+      return `Bubbles left: ${countBubbles(state, isColored)}`;
+  }
+}
+
+/**
+ * Stars for a win. Levels may set score thresholds; otherwise the second star is for
+ * keeping every life and the third for finishing inside half the time-bonus window.
+ */
+export function starsFor(state: EngineState, levelScore: number, timeSec: number) {
+  const thresholds = state.level.stars;
+  if (thresholds) return 1 + (levelScore >= thresholds[0] ? 1 : 0) + (levelScore >= thresholds[1] ? 1 : 0);
+  const { timeBonus, timeBonusPerSec } = state.scoring;
+  return 1 + (state.livesLost === 0 ? 1 : 0) + (timeSec * timeBonusPerSec <= timeBonus / 2 ? 1 : 0);
+}
@@ -0,0 +1,170 @@
+import type { Bubble, BubbleColor } from '../types';
+import { BOARD_ASPECT, BUBBLE_RADIUS, COL_H_SPACING, MAX_COLS, MAX_ROWS, ROW_V_SPACING } from './constants';
+import type { Cell, EngineState } from './types';
+
+const key = (r: number, c: number) => r + ':' + c;
+
+// The board is laid out in fixed logical px set only by the column count; the canvas scales it to fit,
+// so the window size never affects play
+export function computeGridSize(cols = MAX_COLS) {
+  const width = Math.ceil(cols * COL_H_SPACING + BUBBLE_RADIUS);
+  const height = Math.round(width * BOARD_ASPECT);
+  // enough logical rows to reach the bottom edge, so descent always hits the danger line first
+  const rows = Math.max(MAX_ROWS, Math.ceil(height / ROW_V_SPACING) + 1);
+  return { cols, rows, width, height };
+}
+
+export function isOddRow(state: EngineState, r: number) {
+  return (r + state.rowParity) % 2 === 1;
+}
+
+export function rowLength(state: EngineState, r: number) {
+  return state.cols - (isOddRow(state, r) ? 1 : 0);
+}
+
+export function gridToXY(state: EngineState, row: number, col: number) {
+  const rowOffset = isOddRow(state, row) ? COL_H_SPACING / 2 : 0;
+  const x = rowOffset + BUBBLE_RADIUS + col * COL_H_SPACING;
+  const y = BUBBLE_RADIUS + row * ROW_V_SPACING + state.descentOffset;
+  return { x, y };
+}
+
+export function xyToGridGuess(state: EngineState, x: number, y: number) {
+  const row = Math.round((y - state.descentOffset - BUBBLE_RADIUS) / ROW_V_SPACING);
+  const rowOffset = isOddRow(state, row) ? COL_H_SPACING / 2 : 0;
+  const col = Math.round((x - rowOffset - BUBBLE_RADIUS) / COL_H_SPACING);
+  return { row, col };
+}
+
+// Re-derive pixel positions after the board has descended or shifted
+export function syncPositions(state: EngineState) {
+  for (const row of state.grid) {
+    for (const b of row) {
+      if (!b) continue;
+      const { x, y } = gridToXY(state, b.row, b.col);
+      b.x = x; b.y = y;
+    }
+  }
+}
+
+export function neighbors(state: EngineState, r: number, c: number) {
+  const grid = state.grid;
+  const res: { r: number; c: number; b: Bubble | null }[] = [];
+  const odd = isOddRow(state, r);
+  const candidates = [
+    [r, c - 1], [r, c + 1],
+    [r - 1, c + (odd ? 0 : -1)], [r - 1, c + (odd ? 1 : 0)],
+    [r + 1, c + (odd ? 0 : -1)], [r + 1, c + (odd ? 1 : 0)],
+  ];
+  for (const [rr, cc] of candidates) {
+    if (rr < 0 || rr >= grid.length) continue;
+    if (cc < 0 || cc >= rowLength(state, rr)) continue;
+    res.push({ r: rr, c: cc, b: grid[rr][cc] });
+  }
+  return res;
+}
+
+export function floodMatch(state: EngineState, r: number, c: number, targetColor: BubbleColor) {
+  const grid = state.grid;
+  const visited = new Set<string>();
+  const res: Cell[] = [];
+  const stack: Cell[] = [{ r, c }];
+  while (stack.length) {
+    const cur = stack.pop()!;
+    if (visited.has(key(cur.r, cur.c))) continue;
+    visited.add(key(cur.r, cur.c));
+    const b = grid[cur.r][cur.c];
+    if (!b) continue;
+    const isRainbow = b.kind === 'rainbow';
+    if (b.color === targetColor || isRainbow) {
+      res.push(cur);
+      for (const n of neighbors(state, cur.r, cur.c)) {
+        if (!n.b) continue;
+        const nbRainbow = n.b.kind === 'rainbow';
+        if (n.b.color === targetColor || nbRainbow) stack.push({ r: n.r, c: n.c });
+      }
+    }
+  }
+  return res;
+}
+
+// Remove any bubbles not connected to the top row (floating); gray obstacles never fall
+export function removeDisconnected(state: EngineState) {
+  const grid = state.grid;
+  const visited = new Set<string>();
+  const stack: Cell[] = [];
+  for (let c = 0; c < state.cols; c++) {
+    if (grid[0]?.[c]) stack.push({ r: 0, c });
+  }
+  while (stack.length) {
+    const cur = stack.pop()!;
+    if (visited.has(key(cur.r, cur.c))) continue;
+    visited.add(key(cur.r, cur.c));
+    const b = grid[cur.r][cur.c];
+    if (!b) continue;
+    for (const n of neighbors(state, cur.r, cur.c)) {
+      if (n.b && !visited.has(key(n.r, n.c)) && n.b.color !== 'gray') stack.push({ r: n.r, c: n.c });
+    }
+  }
+  const dropped: Bubble[] = [];
+  for (let r = 0; r < grid.length; r++) {
+    const row = grid[r];
+    for (let c = 0; c < row.length; c++) {
+      const b = row[c];
+      if (b && b.color !== 'gray' && !visited.has(key(r, c))) {
+        row[c] = null;
+        dropped.push(b);
+      }
+    }
+  }
+  return dropped;
+}
+
+// The reverse of a descending row: the top row is pushed off and everything moves up one.
+// Returns the bubbles that were pushed off.
+export function raiseBoard(state: EngineState) {
+  const removed = state.grid.shift()!.filter((b): b is Bubble => !!b);
+  for (const row of state.grid) {
+    for (const b of row) if (b) b.row -= 1;
+  }
+  state.rowParity ^= 1;
+  state.grid.push(Array(state.cols).fill(null));
+  syncPositions(state);
+  return removed;
+}
+
+// Cells within `radius` grid steps of (r, c), including the origin
+export function cellsWithin(state: EngineState, r: number, c: number, radius: number) {
+  const around: Cell[] = [];
+  const queue = [{ r, c, d: 0 }];
+  const seen = new Set<string>();
+  while (queue.length) {
+    const cur = queue.shift()!;
+    if (cur.d > radius) continue;
+    const k = key(cur.r, cur.c);
+    if (seen.has(k)) continue;
+    seen.add(k);
+    around.push({ r: cur.r, c: cur.c });
+    for (const n of neighbors(state, cur.r, cur.c)) {
+      queue.push({ r: n.r, c: n.c, d: cur.d + 1 });
+    }
+  }
+  return around;
+}
+
+// Pull an out-of-range cell onto the board, as placement does
+export function clampCell(state: EngineState, row: number, col: number): Cell {
+  const r = Math.max(0, Math.min(state.grid.length - 1, row));
+  return { r, c: Math.max(0, Math.min(rowLength(state, r) - 1, col)) };
+}
+
+export function placeBubbleAt(state: EngineState, row: number, col: number, b: Bubble) {
+  const grid = state.grid;
+  ({ r: row, c: col } = clampCell(state, row, col));
+  if (grid[row][col]) return false;
+  b.row = row; b.col = col; b.stationary = true;
+  const { x, y } = gridToXY(state, row, col);
+  b.x = x; b.y = y;
+  grid[row][col] = b;
+  return true;
+}
@@ -0,0 +1,73 @@
+import type { Bubble } from '../types';
+import { HINT_ANGLES, MATCH_SIZE, MAX_AIM_ANGLE, MIN_AIM_ANGLE } from './constants';
+import { floodMatch, placeBubbleAt, removeDisconnected } from './grid';
+import { castShot } from './motion';
+import { POWERUPS } from './powerups';
+import type { Cell, EngineState, QueuedShot } from './types';
+import type { Point } from './motion';
+
+export interface SnapPreview {
+  board: EngineState; // copy of the board after the snap
+  bubble: Bubble; // the shot as placed on the copy
+  hit: boolean; // it matched, or is a power-up with its own effect
+  cleared: Bubble[];
+  dropped: Bubble[];
+}
+
+/**
+ * Play out `shot` snapping into `cell` on a copy of the board, with the same matching and
+ * drop rules as a real shot. Null when the cell is taken. The live state is left untouched.
+ */
+export function previewSnap(state: EngineState, shot: QueuedShot, cell: Cell): SnapPreview | null {
+  const board: EngineState = {
+    ...state, grid: state.grid.map(row => row.map(b => b && { ...b })), rng: { ...state.rng }, power: { ...state.power },
+  };
+  const bubble: Bubble = { id: 'preview', row: -1, col: -1, x: 0, y: 0, color: shot.color, kind: shot.kind, stationary: false };
+  if (!placeBubbleAt(board, cell.r, cell.c, bubble)) return null;
+  const power = shot.kind === 'normal' ? null : POWERUPS[shot.kind];
+  let cleared: Bubble[];
+  if (shot.kind !== 'normal' && power?.onSnap) {
+    cleared = power.onSnap(board, bubble);
+  } else {
+    const group = floodMatch(board, bubble.row, bubble.col, bubble.color);
+    if (group.length < MATCH_SIZE) return { board, bubble, hit: false, cleared: [], dropped: [] };
+    cleared = group.map(g => board.grid[g.r][g.c]!);
+    for (const g of group) board.grid[g.r][g.c] = null;
+  }
+  return { board, bubble, hit: true, cleared, dropped: removeDisconnected(board) };
+}
+
+export interface Hint {
+  angle: number;
+  cell: Cell;
+  cleared: number;
+  dropped: number;
+}
+
+/**
+ * The aim for the loaded shot that clears the most, counting both the match and what falls
+ * with it; fewer wall bounces break ties. Null when no reachable cell clears anything.
+ */
+export function findHint(state: EngineState, origin: Point, descentPerSec: number): Hint | null {
+  const loaded = state.nextQueue[0];
+  if (!loaded) return null;
+  let best: (Hint & { bounces: number }) | null = null;
+  const previews = new Map<string, SnapPreview | null>(); // many aims land in the same cell
+  for (let i = 0; i < HINT_ANGLES; i++) {
+    const angle = MIN_AIM_ANGLE + ((MAX_AIM_ANGLE - MIN_AIM_ANGLE) * (i + 0.5)) / HINT_ANGLES;
+    const { cell, points } = castShot(state, origin, angle, descentPerSec);
+    if (!cell) continue;
+    const key = cell.r + ':' + cell.c;
+    if (!previews.has(key)) previews.set(key, previewSnap(state, loaded, cell));
+    const preview = previews.get(key);
+    if (!preview?.hit) continue;
+    const total = preview.cleared.length + preview.dropped.length;
+    const bounces = points.length - 2;
+    if (!best || total > best.cleared + best.dropped || (total === best.cleared + best.dropped && bounces < best.bounces)) {
+      best = { angle, cell, cleared: preview.cleared.length, dropped: preview.dropped.length, bounces };
+    }
+  }
+  if (!best) return null;
+  const { bounces: _bounces, ...hint } = best;
+  return hint;
+}
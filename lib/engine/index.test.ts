@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createEngine, floodMatch, removeDisconnected, step, TICK_SEC } from '.';
+import type { EngineEvent, EngineState } from '.';
+import { parseLevelFile } from '../levelFormat';
+
+// An authored 8-column board that never descends, with the given shots loaded first
+function boardOf(layout: string[], queue: string[] = []) {
+  return createEngine(parseLevelFile({
+    version: 1, level: 1, difficulty: 'Easy', colorsCount: 4, descentSpeed: 0, startingPattern: 'simple',
+    unbreakableGrayCount: 0, randomColorChance: 0, cols: 8, layout, queue,
+  }), 1);
+}
+
+// Fires the loaded shot and runs the engine until it lands
+function fire(state: EngineState, aimAngle: number) {
+  const events: EngineEvent[] = step(state, { aimAngle, shoot: true }, TICK_SEC);
+  for (let i = 0; i < 600 && !events.some(e => e.type === 'landed'); i++) events.push(...step(state, {}, TICK_SEC));
+  return events;
+}
+
+const colorAt = (state: EngineState, r: number, c: number) => state.grid[r][c]?.color ?? null;
+
+test('floodMatch follows one color and rainbows, not other colors', () => {
+  const state = boardOf([
+    'R R* B R . . . .',
+    'R . . . . . .',
+  ]);
+  const cells = floodMatch(state, 0, 0, 'red').map(({ r, c }) => `${r}:${c}`).sort();
+  assert.deepEqual(cells, ['0:0', '0:1', '1:0']);
+});
+
+test('removeDisconnected drops bubbles cut off from the top row but keeps grays', () => {
+  const state = boardOf([
+    'R . . . . . . .',
+    'G . . . . . .',
+    '. . . . . . . .',
+    '. . . . # . .',
+    '. . . . B . . .',
+  ]);
+  const dropped = removeDisconnected(state);
+  assert.deepEqual(dropped.map(b => b.color), ['blue']);
+  assert.equal(colorAt(state, 1, 0), 'green');
+  assert.equal(colorAt(state, 3, 4), 'gray');
+  assert.equal(colorAt(state, 4, 4), null);
+});
+
+test('a shot that makes three of a color clears them', () => {
+  const state = boardOf(['. . . R R . . .', 'B . . . . . .'], ['R']);
+  const events = fire(state, -Math.PI / 2);
+  const match = events.find(e => e.type === 'match');
+  assert.equal(match?.type === 'match' && match.count, 3);
+  assert.equal(colorAt(state, 0, 3), null);
+  assert.equal(colorAt(state, 0, 4), null);
+  assert.equal(state.shots, 1);
+});
+
+test('bubbles left hanging by a match drop and score', () => {
+  const state = boardOf([
+    '. . B . . . . .',
+    '. . R R G . .',
+  ], ['R']);
+  const events = fire(state, -Math.PI / 2);
+  const drop = events.find(e => e.type === 'drop');
+  assert.ok(drop?.type === 'drop');
+  assert.deepEqual(drop.bubbles.map(b => b.color), ['green']);
+  assert.ok(drop.points > 0);
+  assert.equal(colorAt(state, 0, 2), 'blue');
+  assert.equal(colorAt(state, 1, 4), null);
+});
+
+test('a shot with no match sticks where it lands', () => {
+  const state = boardOf(['. . . B B . . .'], ['R']);
+  const events = fire(state, -Math.PI / 2);
+  assert.ok(!events.some(e => e.type === 'match'));
+  const landed = events.find(e => e.type === 'landed');
+  assert.ok(landed?.type === 'landed');
+  assert.equal(colorAt(state, landed.cell.r, landed.cell.c), 'red');
+});
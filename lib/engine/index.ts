@@ -0,0 +1,432 @@
+import type { Bubble, BubbleColor, BubbleKind, LevelConfig } from '../types';
+import { BASE_COLORS } from '../levels';
+import { createRng, pick, random, randomId, randomInt } from '../rng';
+import { chainMultiplier, dropScore, emptyShotStats, resolveScoring } from '../scoring';
+import {
+  BUBBLE_RADIUS, DANGER_MARGIN, DEFAULT_HINTS, DEFAULT_HINT_COST, MATCH_SIZE,
+  MAX_AIM_ANGLE, MIN_AIM_ANGLE, QUEUE_LENGTH, ROW_V_SPACING, SHOOTER_MARGIN, SHOOT_SPEED,
+} from './constants';
+import {
+  computeGridSize, floodMatch, gridToXY, placeBubbleAt, removeDisconnected,
+  rowLength, syncPositions,
+} from './grid';
+import { boardColors, colorPolicyOf, pickShotColor } from './colorPolicy';
+import { isOutOfShots, markTargets, metGoal, starsFor } from './goals';
+import { advanceFlight, castShot, findSnapCell } from './motion';
+import { POWERUPS, POWERUP_KINDS, isPowerActive, spawnWeight } from './powerups';
+import { findHint } from './hint';
+import { ENDLESS_REFILL_ROWS, resolveEndless, waveFor, waveSettings } from './endless';
+import type { Cell, EngineEvent, EngineInput, EngineState, LoseCause } from './types';
+
+export * from './constants';
+export * from './grid';
+export * from './goals';
+export * from './colorPolicy';
+export * from './motion';
+export * from './powerups';
+export * from './hint';
+export * from './endless';
+export type { Cell, EngineEvent, EngineInput, EngineState, Grid, LoseCause, QueuedShot, ShotOutcome } from './types';
+
+// Utility
+function clamp(n: number, a: number, b: number) { return Math.max(a, Math.min(b, n)); }
+
+export function clampAim(angle: number) {
+  return clamp(angle, MIN_AIM_ANGLE, MAX_AIM_ANGLE);
+}
+
+export function shooterOrigin(state: EngineState) {
+  return { x: state.width / 2, y: state.height - BUBBLE_RADIUS - SHOOTER_MARGIN };
+}
+
+export function dangerLine(state: EngineState) {
+  return state.height - DANGER_MARGIN;
+}
+
+// 0 while the lowest bubble is at the top of the board, 1 once it reaches the danger line
+export function dangerProximity(state: EngineState) {
+  let lowest = 0;
+  for (const row of state.grid) {
+    for (const b of row) if (b) lowest = Math.max(lowest, b.y + BUBBLE_RADIUS);
+  }
+  return clamp(lowest / dangerLine(state), 0, 1);
+}
+
+export function elapsedSec(state: EngineState) {
+  return (state.timeMs - state.levelStartMs) / 1000;
+}
+
+export function isFrozen(state: EngineState) {
+  return isPowerActive(state, 'freeze');
+}
+
+export function isAimBoosted(state: EngineState) {
+  return isPowerActive(state, 'aim');
+}
+
+// px/s the board is currently sinking; puzzle boards hold still and endless ones speed up with the waves
+export function descentSpeed(state: EngineState) {
+  const base = state.level.puzzle ? 0 : state.endless ? waveSettings(state.endless, state.wave).descentSpeed : state.level.descentSpeed;
+  return isFrozen(state) ? base * 0.35 : base;
+}
+
+// Where a shot fired now at the current aim would travel and settle
+export function predictShot(state: EngineState) {
+  return castShot(state, shooterOrigin(state), state.aimAngle, descentSpeed(state));
+}
+
+export function hintsLeft(state: EngineState) {
+  return Math.max(0, (state.level.hints ?? DEFAULT_HINTS) - state.hintsUsed);
+}
+
+// A hint is only charged when it finds something; the cost can't take the score below zero
+function requestHint(state: EngineState, events: EngineEvent[]) {
+  if (state.moving || hintsLeft(state) === 0) return;
+  const hint = findHint(state, shooterOrigin(state), descentSpeed(state));
+  const before = state.score;
+  if (hint) {
+    state.hintsUsed++;
+    state.score = Math.max(0, state.score - (state.level.hintCost ?? DEFAULT_HINT_COST));
+  }
+  state.hint = hint;
+  events.push({ type: 'hint', hint, left: hintsLeft(state), cost: before - state.score });
+}
+
+export function createEngine(level: LevelConfig, seed: number, lives?: number): EngineState {
+  const { cols, rows, width, height } = computeGridSize(level.cols);
+  const scoring = resolveScoring(level);
+  const endless = resolveEndless(level);
+  const state: EngineState = {
+    level,
+    scoring,
+    endless,
+    wave: 1,
+    seed,
+    rng: createRng(seed),
+    colors: BASE_COLORS.slice(0, endless ? waveSettings(endless, 1).colorsCount : level.colorsCount),
+    width,
+    height,
+    cols,
+    rows,
+    grid: [],
+    rowParity: 0,
+    descentOffset: 0,
+    moving: null,
+    dir: null,
+    aimAngle: -Math.PI / 2,
+    nextQueue: [],
+    power: {},
+    score: 0,
+    shots: 0,
+    comboChain: 0,
+    shotBounces: 0,
+    stats: emptyShotStats(),
+    hintsUsed: 0,
+    hint: null,
+    lives: lives ?? scoring.startingLives,
+    timeMs: 0,
+    levelStartMs: 0,
+    boardStartMs: 0,
+    dropped: 0,
+    boardShots: 0,
+    livesLost: 0,
+    status: 'playing',
+  };
+  initGrid(state);
+  resetQueue(state); // after the board exists, since color policies look at it
+  return state;
+}
+
+export function initGrid(state: EngineState) {
+  const { level, cols, rows } = state;
+  state.grid = Array.from({ length: rows }, () => Array(cols).fill(null));
+  state.rowParity = 0;
+  const grid = state.grid;
+
+  // Authored boards are placed exactly as designed
+  if (level.layout) {
+    level.layout.forEach((cells, r) => cells.forEach((cell, c) => {
+      if (!cell || r >= rows || c >= rowLength(state, r)) return;
+      const { x, y } = gridToXY(state, r, c);
+      const b: Bubble = { id: randomId(state.rng), row: r, col: c, x, y, color: cell.color, kind: cell.kind, stationary: true };
+      if (cell.target) b.target = true;
+      grid[r][c] = b;
+    }));
+    markTargets(state);
+    return;
+  }
+
+  // Seed top rows based on pattern
+  const topRows = level.doubleLayer ? 8 : 6;
+  for (let r = 0; r < topRows; r++) {
+    for (let c = 0; c < rowLength(state, r); c++) {
+      const color: BubbleColor = pick(state.rng, state.colors);
+      if (level.startingPattern === 'simple' && r > 3) continue;
+      if (level.startingPattern === 'alternating' && (r + c) % 2 === 1) continue;
+      if (level.startingPattern === 'random' && random(state.rng) < 0.25) continue;
+      const { x, y } = gridToXY(state, r, c);
+      grid[r][c] = { id: randomId(state.rng), row: r, col: c, x, y, color, kind: 'normal', stationary: true };
+    }
+  }
+
+  // Unbreakable gray obstacles
+  let placedGray = 0;
+  while (placedGray < level.unbreakableGrayCount) {
+    const r = randomInt(state.rng, Math.min(topRows + 4, rows));
+    const c = randomInt(state.rng, rowLength(state, r));
+    if (!grid[r][c]) {
+      const { x, y } = gridToXY(state, r, c);
+      grid[r][c] = { id: randomId(state.rng), row: r, col: c, x, y, color: 'gray', kind: 'normal', stationary: true };
+      placedGray++;
+    }
+  }
+  markTargets(state);
+}
+
+function refillNextQueue(state: EngineState) {
+  if (state.level.puzzle) return;
+  while (state.nextQueue.length < QUEUE_LENGTH) {
+    // Each power-up has its own chance per shot; the color is fixed now, not at fire time
+    let roll = random(state.rng);
+    let kind: BubbleKind = 'normal';
+    for (const p of POWERUP_KINDS) {
+      roll -= spawnWeight(state.level, p);
+      if (roll < 0) { kind = p; break; }
+    }
+    state.nextQueue.push({ color: pickShotColor(state), kind });
+  }
+}
+
+// Authored shots come first, then random ones (none in puzzle mode)
+function resetQueue(state: EngineState) {
+  state.nextQueue = (state.level.queue ?? []).map(cell => ({ color: cell.color, kind: cell.kind, fixed: true }));
+  refillNextQueue(state);
+}
+
+export function swapQueue(state: EngineState) {
+  const q = state.nextQueue;
+  if (q.length < 2) return;
+  [q[0], q[1]] = [q[1], q[0]];
+  state.hint = null; // it was for the other shot
+}
+
+export function addNewDescendingRow(state: EngineState) {
+  const grid = state.grid;
+  // push existing bubbles down one row index (logical); parity flips so their offsets are kept
+  for (const row of grid) {
+    for (const b of row) {
+      if (b) b.row = b.row + 1;
+    }
+  }
+  state.rowParity ^= 1;
+  const newRow: (Bubble | null)[] = Array(state.cols).fill(null);
+  grid.unshift(newRow);
+  grid.pop();
+  const { randomColorChance, grayChance } = state.endless
+    ? waveSettings(state.endless, state.wave)
+    : { randomColorChance: state.level.randomColorChance, grayChance: 0 };
+  for (let c = 0; c < rowLength(state, 0); c++) {
+    const gray = grayChance > 0 && random(state.rng) < grayChance;
+    const useRandomColor = random(state.rng) < randomColorChance;
+    const color: BubbleColor = gray ? 'gray' : useRandomColor ? pick(state.rng, BASE_COLORS) : pick(state.rng, state.colors);
+    const { x, y } = gridToXY(state, 0, c);
+    newRow[c] = { id: randomId(state.rng), row: 0, col: c, x, y, color, kind: 'normal', stationary: true };
+  }
+}
+
+// Colors can be cleared off the board while queued; re-roll those so no shot is dead on arrival
+function refreshQueueColors(state: EngineState) {
+  if (colorPolicyOf(state) === 'uniform') return;
+  const present = boardColors(state);
+  if (!present.length) return;
+  for (const shot of state.nextQueue) {
+    if (!shot.fixed && shot.kind === 'normal' && !present.includes(shot.color)) shot.color = pickShotColor(state);
+  }
+}
+
+function shoot(state: EngineState, events: EngineEvent[]) {
+  if (state.moving) return;
+  const next = state.nextQueue.shift();
+  if (!next) return;
+  refillNextQueue(state);
+  const { color, kind } = next;
+  const { x, y } = shooterOrigin(state);
+  state.moving = { id: randomId(state.rng), row: -1, col: -1, x, y, color, kind, stationary: false };
+  state.dir = { dx: Math.cos(state.aimAngle), dy: Math.sin(state.aimAngle) };
+  state.shots++;
+  state.boardShots++;
+  state.shotBounces = 0;
+  state.hint = null;
+  events.push({ type: 'shot', angle: state.aimAngle, kind, color });
+}
+
+function snapAndResolve(state: EngineState, b: Bubble, cell: Cell, events: EngineEvent[]) {
+  placeBubbleAt(state, cell.r, cell.c, b);
+  const grid = state.grid;
+  const { scoring } = state;
+
+  // Power-ups with their own effect skip matching; they count as hits but leave the chain alone.
+  // What they cut loose scores like any drop, at the current chain's multiplier.
+  const power = b.kind === 'normal' ? null : POWERUPS[b.kind];
+  if (b.kind !== 'normal' && power?.onSnap) {
+    const removed = power.onSnap(state, b);
+    if (power.durationMs) state.power[b.kind] = state.timeMs + power.durationMs;
+    events.push({ type: 'powerup', kind: b.kind });
+    if (removed.length > 0) events.push({ type: 'blast', count: removed.length, bubbles: removed });
+    const dropped = removeDisconnected(state);
+    state.dropped += dropped.length;
+    const multiplier = chainMultiplier(scoring, state.comboChain);
+    const dropPoints = Math.round(dropScore(scoring, dropped.length) * multiplier);
+    if (dropped.length > 0) events.push({ type: 'drop', count: dropped.length, bubbles: dropped, points: dropPoints });
+    state.score += dropPoints;
+    landed(state, b, true, multiplier, dropped.length, dropPoints, events);
+    return;
+  }
+
+  // Normal or rainbow matching
+  const group = floodMatch(state, b.row, b.col, b.color);
+  if (group.length < MATCH_SIZE) {
+    state.comboChain = 0;
+    landed(state, b, false, 1, 0, 0, events);
+    return;
+  }
+  state.comboChain += 1;
+  const multiplier = chainMultiplier(scoring, state.comboChain);
+  const popped = group.map(cell => grid[cell.r][cell.c]!);
+  for (const cell of group) grid[cell.r][cell.c] = null;
+  const points = Math.round((scoring.matchPoints * group.length + scoring.bankShotPoints * state.shotBounces) * multiplier);
+  events.push({ type: 'match', count: group.length, bubbles: popped, points });
+  const dropped = removeDisconnected(state);
+  state.dropped += dropped.length;
+  const dropPoints = Math.round(dropScore(scoring, dropped.length) * multiplier);
+  if (dropped.length > 0) events.push({ type: 'drop', count: dropped.length, bubbles: dropped, points: dropPoints });
+  state.score += points + dropPoints;
+  landed(state, b, true, multiplier, dropped.length, points + dropPoints, events);
+}
+
+function landed(state: EngineState, b: Bubble, hit: boolean, multiplier: number, dropped: number, points: number, events: EngineEvent[]) {
+  const { stats } = state;
+  const bounces = hit ? state.shotBounces : 0;
+  if (hit) stats.hits++;
+  else stats.misses++;
+  stats.longestChain = Math.max(stats.longestChain, state.comboChain);
+  stats.largestDrop = Math.max(stats.largestDrop, dropped);
+  stats.bounces += bounces;
+  const cell = { r: b.row, c: b.col };
+  events.push({ type: 'landed', shot: { hit, chain: state.comboChain, multiplier, bounces, dropped, points }, cell });
+}
+
+function updateMoving(state: EngineState, dt: number, events: EngineEvent[]) {
+  const moving = state.moving;
+  const dir = state.dir;
+  if (!moving || !dir) return;
+  const dx = dir.dx;
+  const hit = advanceFlight(state, moving, dir, SHOOT_SPEED * dt);
+  if (Math.sign(dir.dx) !== Math.sign(dx)) state.shotBounces++;
+  if (hit) {
+    state.moving = null;
+    state.dir = null;
+    const cell = findSnapCell(state, moving.x, moving.y);
+    // A board with no room left for the shot costs a life rather than swallowing it
+    if (!cell) return loseLife(state, 'overflow', events);
+    snapAndResolve(state, moving, cell, events);
+    refreshQueueColors(state); // keep the visible queue honest right away
+  }
+}
+
+// Endless runs move up a wave on time or score, and a board emptied of colors is fed new rows right away
+function updateEndless(state: EngineState, events: EngineEvent[]) {
+  const curve = state.endless;
+  if (!curve) return;
+  const wave = waveFor(curve, elapsedSec(state), state.score);
+  if (wave > state.wave) {
+    state.wave = wave;
+    state.colors = BASE_COLORS.slice(0, waveSettings(curve, wave).colorsCount);
+    events.push({ type: 'wave', wave });
+  }
+  if (state.grid.some(row => row.some(b => b && b.color !== 'gray'))) return;
+  for (let i = 0; i < ENDLESS_REFILL_ROWS; i++) {
+    addNewDescendingRow(state);
+    events.push({ type: 'newRow' });
+  }
+}
+
+function loseLife(state: EngineState, cause: LoseCause, events: EngineEvent[]) {
+  state.moving = null;
+  state.dir = null;
+  if (cause === 'timer') state.levelStartMs = state.timeMs;
+  state.boardStartMs = state.timeMs;
+  state.dropped = 0;
+  state.boardShots = 0;
+  state.livesLost++;
+  state.hint = null;
+  if (state.level.puzzle) resetQueue(state);
+  initGrid(state);
+  syncPositions(state);
+  refreshQueueColors(state); // the fresh board may lack colors still queued
+  events.push({ type: 'lifeLost', cause });
+}
+
+/**
+ * Advance the simulation by `dt` seconds, applying `input` first. Mutates `state`
+ * and returns what happened during the step; the caller owns sound and UI.
+ */
+export function step(state: EngineState, input: EngineInput, dt: number): EngineEvent[] {
+  const events: EngineEvent[] = [];
+  if (state.status !== 'playing') return events;
+  state.timeMs += dt * 1000;
+
+  if (input.aimAngle !== undefined) state.aimAngle = clampAim(input.aimAngle);
+  if (input.swap) swapQueue(state);
+  if (input.hint) requestHint(state, events);
+  if (input.shoot) shoot(state, events);
+  updateEndless(state, events);
+
+  // Update descent
+  state.descentOffset += descentSpeed(state) * dt;
+  if (state.descentOffset > ROW_V_SPACING) {
+    state.descentOffset -= ROW_V_SPACING;
+    addNewDescendingRow(state);
+    events.push({ type: 'newRow' });
+  }
+  for (let i = 0; i < (input.garbage ?? 0); i++) {
+    addNewDescendingRow(state);
+    events.push({ type: 'newRow' });
+  }
+  syncPositions(state);
+
+  updateMoving(state, dt, events);
+
+  // Lose condition: any bubble near bottom
+  const limit = dangerLine(state);
+  if (state.grid.some(row => row.some(b => b && b.y + BUBBLE_RADIUS >= limit))) {
+    loseLife(state, 'danger', events);
+  }
+
+  const goal = metGoal(state);
+  if (goal) {
+    const { timeBonus, timeBonusPerSec, lifeBonus } = state.scoring;
+    const timeSec = Math.floor(elapsedSec(state));
+    const breakdown = {
+      play: state.score,
+      timeBonus: Math.max(0, timeBonus - timeSec * timeBonusPerSec),
+      lifeBonus: state.lives * lifeBonus,
+    };
+    const levelScore = breakdown.play + breakdown.timeBonus + breakdown.lifeBonus;
+    state.status = 'won';
+    const stars = starsFor(state, levelScore, timeSec);
+    events.push({ type: 'win', result: { levelScore, timeSec, shots: state.shots, goal, stars, stats: { ...state.stats }, breakdown } });
+    return events;
+  }
+
+  if (isOutOfShots(state)) {
+    loseLife(state, 'shots', events);
+  }
+
+  // Time limit for certain levels
+  if (state.level.timeLimitSec && elapsedSec(state) > state.level.timeLimitSec) {
+    loseLife(state, 'timer', events);
+  }
+
+  return events;
+}
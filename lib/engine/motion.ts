@@ -0,0 +1,126 @@
+import { BUBBLE_DIAMETER, BUBBLE_RADIUS, COL_H_SPACING, MAX_AIM_BOUNCES, ROW_V_SPACING, SHOOT_SPEED, TICK_SEC } from './constants';
+import { gridToXY, neighbors, rowLength } from './grid';
+import type { Cell, EngineState } from './types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Heading {
+  dx: number;
+  dy: number;
+}
+
+export interface ShotPrediction {
+  points: Point[]; // origin, every wall bounce, then the contact point if there is one
+  contact: Point | null;
+  cell: Cell | null; // where the bubble would snap
+}
+
+const HIT_DIST = BUBBLE_DIAMETER - 1; // centers closer than this are touching
+const TOP_Y = BUBBLE_RADIUS + 2;
+
+// Distance along `dir` from `pos` to the first bubble or the top wall within `len`, or null
+function sweep(state: EngineState, pos: Point, dir: Heading, len: number, boardShift: number) {
+  let first: number | null = null;
+  if (pos.y <= TOP_Y) return 0;
+  if (dir.dy < 0 && pos.y + dir.dy * len <= TOP_Y) first = (TOP_Y - pos.y) / dir.dy;
+
+  // Only rows and columns the swept circle can reach
+  const top = Math.min(pos.y, pos.y + dir.dy * len) - boardShift - state.descentOffset - BUBBLE_RADIUS - HIT_DIST;
+  const bottom = Math.max(pos.y, pos.y + dir.dy * len) - boardShift - state.descentOffset - BUBBLE_RADIUS + HIT_DIST;
+  const left = Math.min(pos.x, pos.x + dir.dx * len) - BUBBLE_RADIUS - HIT_DIST;
+  const right = Math.max(pos.x, pos.x + dir.dx * len) - BUBBLE_RADIUS + HIT_DIST;
+  const rowLo = Math.max(0, Math.floor(top / ROW_V_SPACING));
+  const rowHi = Math.min(state.grid.length - 1, Math.ceil(bottom / ROW_V_SPACING));
+  for (let r = rowLo; r <= rowHi; r++) {
+    const row = state.grid[r];
+    const colLo = Math.max(0, Math.floor(left / COL_H_SPACING) - 1);
+    const colHi = Math.min(rowLength(state, r) - 1, Math.ceil(right / COL_H_SPACING));
+    for (let c = colLo; c <= colHi; c++) {
+      const b = row[c];
+      if (!b) continue;
+      // Earliest t in [0, len] with |pos + dir*t - b| = HIT_DIST
+      const fx = pos.x - b.x, fy = pos.y - b.y - boardShift;
+      const half = fx * dir.dx + fy * dir.dy;
+      const rest = fx * fx + fy * fy - HIT_DIST * HIT_DIST;
+      if (rest <= 0) return 0;
+      const disc = half * half - rest;
+      if (half >= 0 || disc < 0) continue;
+      const t = -half - Math.sqrt(disc);
+      if (t <= len && (first === null || t < first)) first = t;
+    }
+  }
+  return first;
+}
+
+/**
+ * Move a flying bubble `dist` px, bouncing off the side walls. The path is swept, so
+ * no step is long enough to pass between bubbles. Returns true once the bubble touches
+ * the top wall or a bubble, leaving it at the contact point. `boardShift` offsets the
+ * grid vertically, which lets a prediction account for descent during the flight.
+ */
+export function advanceFlight(state: EngineState, pos: Point, dir: Heading, dist: number, boardShift = 0) {
+  let left = dist;
+  while (left > 0) {
+    // Cut the step at a side wall so each piece is a straight line
+    const wallX = dir.dx < 0 ? BUBBLE_RADIUS : state.width - BUBBLE_RADIUS;
+    const toWall = dir.dx === 0 ? Infinity : Math.max(0, (wallX - pos.x) / dir.dx);
+    const len = Math.min(left, toWall);
+    const hit = sweep(state, pos, dir, len, boardShift);
+    if (hit !== null) {
+      pos.x += dir.dx * hit;
+      pos.y += dir.dy * hit;
+      return true;
+    }
+    pos.x += dir.dx * len;
+    pos.y += dir.dy * len;
+    left -= len;
+    if (toWall <= len) { pos.x = wallX; dir.dx *= -1; }
+  }
+  return false;
+}
+
+// An empty cell a bubble can hang from: the top row, or touching another bubble
+function canAttach(state: EngineState, r: number, c: number) {
+  return !state.grid[r][c] && (r === 0 || neighbors(state, r, c).some(n => n.b));
+}
+
+// Nearest attachable empty cell to where a bubble stopped; null only when there is none
+export function findSnapCell(state: EngineState, x: number, y: number): Cell | null {
+  let best: Cell | null = null;
+  let bestDist = Infinity;
+  for (let r = 0; r < state.grid.length; r++) {
+    for (let c = 0; c < rowLength(state, r); c++) {
+      if (!canAttach(state, r, c)) continue;
+      const p = gridToXY(state, r, c);
+      const d = Math.hypot(p.x - x, p.y - y);
+      if (d < bestDist) { bestDist = d; best = { r, c }; }
+    }
+  }
+  return best;
+}
+
+/**
+ * Fly a virtual bubble tick by tick with the same steps the live one takes, so the
+ * predicted contact and cell match what the shot will really do.
+ */
+export function castShot(state: EngineState, from: Point, angle: number, descentPerSec: number): ShotPrediction {
+  const pos = { ...from };
+  const dir = { dx: Math.cos(angle), dy: Math.sin(angle) };
+  const stepDist = SHOOT_SPEED * TICK_SEC;
+  const points: Point[] = [{ ...from }];
+  let bounces = 0;
+  for (let tick = 1; bounces <= MAX_AIM_BOUNCES && pos.y > -state.height; tick++) {
+    const dx = dir.dx;
+    const shift = descentPerSec * TICK_SEC * tick;
+    if (advanceFlight(state, pos, dir, stepDist, shift)) {
+      points.push({ ...pos });
+      // Snap against the board as it will be then, i.e. lowered by `shift`
+      return { points, contact: { ...pos }, cell: findSnapCell(state, pos.x, pos.y - shift) };
+    }
+    if (dir.dx !== dx) { points.push({ ...pos }); bounces++; }
+  }
+  return { points, contact: null, cell: null };
+}
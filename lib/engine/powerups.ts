@@ -0,0 +1,116 @@
+import type { Bubble, LevelConfig, PowerupKind } from '../types';
+import { cellsWithin, neighbors, raiseBoard, rowLength } from './grid';
+import { resolveEndless } from './endless';
+import type { EngineState } from './types';
+
+export interface PowerupDef {
+  name: string;
+  icon: string; // drawn on the bubble and next to an active timer in the HUD
+  /** Chance that a random queued shot is this power-up; a level's `powerups` entry overrides it. */
+  weight: (level: LevelConfig) => number;
+  durationMs?: number; // timed power-ups stay active this long after they land
+  /**
+   * Runs once the shot has snapped into the grid as `b`. Returns the bubbles it cleared;
+   * without a handler the shot matches like a normal bubble.
+   */
+  onSnap?: (state: EngineState, b: Bubble) => Bubble[];
+}
+
+// Endless boards take their grays and descent from the wave ramp rather than the level fields
+const hasGrays = (level: LevelConfig) =>
+  level.unbreakableGrayCount > 0 || !!level.layout?.some(row => row.some(cell => cell?.color === 'gray'))
+  || !!resolveEndless(level)?.grayChance.some(chance => chance > 0);
+
+const descends = (level: LevelConfig) =>
+  !level.puzzle && (level.descentSpeed > 0 || !!resolveEndless(level)?.descentSpeed.some(speed => speed > 0));
+
+function clear(state: EngineState, cells: { r: number; c: number }[], test: (b: Bubble) => boolean) {
+  const removed: Bubble[] = [];
+  for (const { r, c } of cells) {
+    const b = state.grid[r]?.[c];
+    if (b && test(b)) { state.grid[r][c] = null; removed.push(b); }
+  }
+  return removed;
+}
+
+function removeSelf(state: EngineState, b: Bubble) {
+  state.grid[b.row][b.col] = null;
+  return [];
+}
+
+function allCells(state: EngineState) {
+  return state.grid.flatMap((row, r) => row.map((_, c) => ({ r, c })));
+}
+
+const colored = (b: Bubble) => b.color !== 'gray';
+
+export const POWERUPS: Record<PowerupKind, PowerupDef> = {
+  rainbow: {
+    name: 'Rainbow', icon: '✦',
+    weight: level => level.rainbowEnabled ? 0.08 : 0,
+  },
+  bomb: {
+    name: 'Bomb', icon: 'B',
+    weight: level => level.rainbowEnabled ? 0.03 : 0.11, // 0.11 in all, less the 0.08 that rainbows take where enabled
+    // Everything colored within two steps
+    onSnap: (state, b) => clear(state, cellsWithin(state, b.row, b.col, 2), colored),
+  },
+  freeze: {
+    name: 'Freeze', icon: '❄',
+    weight: () => 0.025,
+    durationMs: 5000,
+    onSnap: removeSelf,
+  },
+  aim: {
+    name: 'Aim boost', icon: '⊕',
+    weight: () => 0.025,
+    durationMs: 6000,
+    onSnap: removeSelf,
+  },
+  colorBomb: {
+    name: 'Color bomb', icon: '◎',
+    weight: () => 0.015,
+    // Every bubble the color of the one it struck; its own color if it only touched the ceiling
+    onSnap: (state, b) => {
+      const struck = neighbors(state, b.row, b.col).find(n => n.b && colored(n.b))?.b ?? b;
+      removeSelf(state, b);
+      return clear(state, allCells(state), bb => bb.color === struck.color);
+    },
+  },
+  laser: {
+    name: 'Line laser', icon: '≡',
+    weight: () => 0.015,
+    onSnap: (state, b) => {
+      const row = Array.from({ length: rowLength(state, b.row) }, (_, c) => ({ r: b.row, c }));
+      return clear(state, row, bb => colored(bb) || bb === b);
+    },
+  },
+  breaker: {
+    name: 'Stone breaker', icon: '⚒',
+    weight: level => hasGrays(level) ? 0.02 : 0,
+    // The only thing that breaks gray obstacles; colored bubbles are left alone
+    onSnap: (state, b) => {
+      removeSelf(state, b);
+      return clear(state, cellsWithin(state, b.row, b.col, 2), bb => bb.color === 'gray');
+    },
+  },
+  reverse: {
+    name: 'Reverse', icon: '⇧',
+    weight: level => descends(level) ? 0.015 : 0,
+    // Push the board up a row; the top row goes off the board
+    onSnap: (state, b) => {
+      removeSelf(state, b);
+      return raiseBoard(state);
+    },
+  },
+};
+
+export const POWERUP_KINDS = Object.keys(POWERUPS) as PowerupKind[];
+
+export function spawnWeight(level: LevelConfig, kind: PowerupKind) {
+  return level.powerups?.[kind] ?? POWERUPS[kind].weight(level);
+}
+
+export function isPowerActive(state: EngineState, kind: PowerupKind) {
+  return state.timeMs < (state.power[kind] ?? 0);
+}
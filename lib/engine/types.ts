@@ -0,0 +1,88 @@
+import type { Rng } from '../rng';
+import type { Hint } from './hint';
+import type {
+  Bubble, BubbleColor, BubbleKind, EndlessCurve, LevelConfig, LevelResult, PowerupState, ScoringRules, ShotStats,
+} from '../types';
+
+export type Grid = (Bubble | null)[][];
+
+export interface Cell {
+  r: number;
+  c: number;
+}
+
+export interface QueuedShot {
+  color: BubbleColor;
+  kind: BubbleKind;
+  fixed?: boolean; // authored in level.queue, never re-rolled
+}
+
+export interface EngineState {
+  level: LevelConfig;
+  scoring: ScoringRules;
+  endless: EndlessCurve | null; // set for endless runs
+  wave: number; // endless wave, from 1
+  seed: number;
+  rng: Rng; // every random decision of the level draws from this
+  colors: BubbleColor[];
+  width: number;
+  height: number;
+  cols: number;
+  rows: number;
+  grid: Grid;
+  rowParity: number; // flips every time a row is pushed in so hex offsets stay put
+  descentOffset: number;
+  moving: Bubble | null;
+  dir: { dx: number; dy: number } | null;
+  aimAngle: number;
+  nextQueue: QueuedShot[]; // upcoming shots with colors fixed on entry; [0] is loaded in the shooter
+  power: PowerupState; // timestamps on the simulation clock
+  score: number;
+  shots: number;
+  comboChain: number; // consecutive matching shots, 0 after a miss
+  shotBounces: number; // wall bounces of the shot in flight
+  stats: ShotStats; // tallies for this attempt at the level
+  hintsUsed: number; // this attempt at the level, lives included
+  hint: Hint | null; // shown until the loaded shot is fired or swapped
+  lives: number;
+  timeMs: number; // simulation clock, advanced only by step()
+  levelStartMs: number;
+  boardStartMs: number; // reset with the board whenever a life is lost
+  dropped: number; // bubbles dropped on the current board
+  boardShots: number; // shots fired at the current board
+  livesLost: number;
+  status: 'playing' | 'won';
+}
+
+export interface EngineInput {
+  aimAngle?: number;
+  shoot?: boolean;
+  swap?: boolean; // exchange the loaded shot with the next one
+  hint?: boolean; // ask for the best aim for the loaded shot
+  garbage?: number; // rows pushed onto the board from outside, e.g. by a versus opponent
+}
+
+// How a resolved shot scored
+export interface ShotOutcome {
+  hit: boolean;
+  chain: number;
+  multiplier: number;
+  bounces: number;
+  dropped: number;
+  points: number;
+}
+
+export type LoseCause = 'danger' | 'timer' | 'shots' | 'overflow';
+
+export type EngineEvent =
+  | { type: 'shot'; angle: number; kind: BubbleKind; color: BubbleColor }
+  | { type: 'match'; count: number; bubbles: Bubble[]; points: number }
+  | { type: 'blast'; count: number; bubbles: Bubble[] }
+  | { type: 'powerup'; kind: BubbleKind }
+  | { type: 'drop'; count: number; bubbles: Bubble[]; points: number }
+  | { type: 'newRow' }
+  | { type: 'landed'; shot: ShotOutcome; cell: Cell } // cell the shot snapped into
+  | { type: 'hint'; hint: Hint | null; left: number; cost: number } // null when no aim clears anything; the hint is then free
+  | { type: 'wave'; wave: number }
+  | { type: 'lifeLost'; cause: LoseCause }
+  | { type: 'win'; result: LevelResult };
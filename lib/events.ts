@@ -0,0 +1,114 @@
+import type { EngineEvent } from './engine';
+
+/** An engine event as published by a live board, tagged with where and when it happened. */
+export type GameEvent = EngineEvent & {
+  level: number;
+  seed: number;
+  timeMs: number; // engine clock, so pauses don't count
+};
+
+export type GameEventType = GameEvent['type'];
+
+export type Subscriber = (e: GameEvent) => void;
+
+export interface EventBus {
+  emit: (e: GameEvent) => void;
+  /** Returns the unsubscribe function, so it can be handed straight back from an effect. */
+  subscribe: (fn: Subscriber) => () => void;
+}
+
+export function createEventBus(): EventBus {
+  const subscribers = new Set<Subscriber>();
+  return {
+    emit(e) {
+      subscribers.forEach(fn => fn(e));
+    },
+    subscribe(fn) {
+      subscribers.add(fn);
+      return () => { subscribers.delete(fn); };
+    },
+  };
+}
+
+// Flat, JSON-safe line for analysis; bubble lists and the like are reduced to what balancing needs
+export type TelemetryRecord = { type: GameEventType; level: number; seed: number; timeMs: number; at: string } & Record<string, unknown>;
+
+function telemetryFields(e: GameEvent): Record<string, unknown> | null {
+  switch (e.type) {
+    case 'shot': return { angle: Number(e.angle.toFixed(4)), kind: e.kind, color: e.color };
+    case 'landed': return { ...e.shot, row: e.cell.r, col: e.cell.c };
+    case 'match': return { count: e.count, points: e.points };
+    case 'blast': return { count: e.count };
+    case 'drop': return { count: e.count, points: e.points };
+    case 'powerup': return { kind: e.kind };
+    case 'hint': return { found: !!e.hint, cleared: e.hint?.cleared ?? 0, dropped: e.hint?.dropped ?? 0, left: e.left, cost: e.cost };
+    case 'wave': return { wave: e.wave };
+    case 'lifeLost': return { cause: e.cause };
+    case 'win': {
+      const { stats, ...result } = e.result;
+      return { ...result, ...stats }; // breakdown stays nested
+    }
+    default: return null; // board housekeeping such as new rows
+  }
+}
+
+export function toTelemetry(e: GameEvent): TelemetryRecord | null {
+  const fields = telemetryFields(e);
+  if (!fields) return null;
+  return { type: e.type, level: e.level, seed: e.seed, timeMs: Math.round(e.timeMs), at: new Date().toISOString(), ...fields };
+}
+
+export interface LevelSummary {
+  level: number;
+  shots: number;
+  hits: number;
+  livesLost: Record<string, number>; // by cause
+  wins: number;
+  bestScore: number;
+}
+
+export interface AnalyticsSink {
+  subscriber: Subscriber;
+  records: () => TelemetryRecord[];
+  summary: () => LevelSummary[];
+  clear: () => void;
+}
+
+const MAX_RECORDS = 50000; // oldest are dropped past this so a long session can't grow without bound
+
+// Keeps telemetry in memory for export and a per-level overview of where players struggle
+export function createAnalyticsSink(): AnalyticsSink {
+  let records: TelemetryRecord[] = [];
+  return {
+    subscriber(e) {
+      const record = toTelemetry(e);
+      if (!record) return;
+      records.push(record);
+      if (records.length > MAX_RECORDS) records = records.slice(-MAX_RECORDS);
+    },
+    records: () => records,
+    summary() {
+      const byLevel = new Map<number, LevelSummary>();
+      for (const r of records) {
+        let s = byLevel.get(r.level);
+        if (!s) byLevel.set(r.level, s = { level: r.level, shots: 0, hits: 0, livesLost: {}, wins: 0, bestScore: 0 });
+        if (r.type === 'shot') s.shots++;
+        else if (r.type === 'landed' && r.hit) s.hits++;
+        else if (r.type === 'lifeLost') s.livesLost[r.cause as string] = (s.livesLost[r.cause as string] ?? 0) + 1;
+        else if (r.type === 'win') {
+          s.wins++;
+          s.bestScore = Math.max(s.bestScore, r.levelScore as number);
+        }
+      }
+      return [...byLevel.values()].sort((a, b) => a.level - b.level);
+    },
+    clear() {
+      records = [];
+    },
+  };
+}
+
+// Newline-delimited JSON: one record per line, easy to stream into analysis tools
+export function toNdjson(records: TelemetryRecord[]) {
+  return records.map(r => JSON.stringify(r)).join('\n') + (records.length ? '\n' : '');
+}
@@ -0,0 +1,146 @@
+import { clampAim } from './engine';
+import type { EngineInput } from './engine';
+
+export type InputAction = 'aimLeft' | 'aimRight' | 'fineAim' | 'fire' | 'swap' | 'hint';
+
+export interface InputBindings {
+  keys: Record<InputAction, string[]>; // KeyboardEvent.code values
+  buttons: Record<InputAction, number[]>; // standard-mapping gamepad button indices
+}
+
+export const INPUT_ACTIONS: InputAction[] = ['aimLeft', 'aimRight', 'fineAim', 'fire', 'swap', 'hint'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  aimLeft: 'Aim left', aimRight: 'Aim right', fineAim: 'Fine aim (hold)', fire: 'Fire', swap: 'Swap shot', hint: 'Hint',
+};
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    aimLeft: ['ArrowLeft', 'KeyA'],
+    aimRight: ['ArrowRight', 'KeyD'],
+    fineAim: ['ShiftLeft', 'ShiftRight'],
+    fire: ['Space', 'Enter'],
+    swap: ['KeyS', 'ArrowDown'],
+    hint: ['KeyH'],
+  },
+  buttons: { aimLeft: [14], aimRight: [15], fineAim: [4, 5], fire: [0, 7], swap: [2], hint: [3] },
+};
+
+// Split keyboard for two players on one machine; each also gets its own gamepad
+export const VERSUS_BINDINGS: [InputBindings, InputBindings] = [
+  {
+    keys: { aimLeft: ['KeyA'], aimRight: ['KeyD'], fineAim: ['ShiftLeft'], fire: ['KeyW', 'Space'], swap: ['KeyS'], hint: ['KeyE'] },
+    buttons: DEFAULT_BINDINGS.buttons,
+  },
+  {
+    keys: { aimLeft: ['ArrowLeft'], aimRight: ['ArrowRight'], fineAim: ['ShiftRight'], fire: ['ArrowUp', 'Enter'], swap: ['ArrowDown'], hint: ['Slash'] },
+    buttons: DEFAULT_BINDINGS.buttons,
+  },
+];
+
+export const AIM_RATE = 1.5; // rad/s while an aim key is held
+export const FINE_AIM_RATE = 0.25;
+const STICK_DEADZONE = 0.25;
+const STICK_AIM_MIN = 0.5; // right stick must be pushed this far before it sets the angle
+
+// Saved bindings may predate an action; missing entries fall back to the defaults
+export function resolveBindings(saved?: Partial<InputBindings>): InputBindings {
+  return {
+    keys: { ...DEFAULT_BINDINGS.keys, ...saved?.keys },
+    buttons: { ...DEFAULT_BINDINGS.buttons, ...saved?.buttons },
+  };
+}
+
+export function keyLabel(code: string) {
+  return code.replace(/^Key|^Digit/, '').replace(/^Arrow/, 'Arrow ');
+}
+
+export function buttonLabel(index: number) {
+  return `Button ${index}`;
+}
+
+export function connectedGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((p): p is Gamepad => !!p);
+}
+
+type OneShotAction = 'fire' | 'swap' | 'hint'; // act once per press rather than while held
+const ONE_SHOT_ACTIONS: OneShotAction[] = ['fire', 'swap', 'hint'];
+const isOneShot = (a: InputAction): a is OneShotAction => (ONE_SHOT_ACTIONS as InputAction[]).includes(a);
+
+export interface InputController {
+  /** Held keys and gamepads for one frame, turned into engine input relative to `aimAngle`. */
+  poll: (dt: number, aimAngle: number) => EngineInput;
+  /** One-shot actions from on-screen controls. */
+  press: (action: OneShotAction) => void;
+  dispose: () => void;
+}
+
+// Keyboard listeners go on the window so the board needn't have focus; form fields, buttons and links keep their keys,
+// so Space and Enter still activate a focused control instead of firing.
+// `gamepad` limits pads to the one at that index; by default every connected pad drives the board.
+export function createInputController(bindings: InputBindings, gamepad?: number): InputController {
+  const held = new Set<string>();
+  const pending: Record<OneShotAction, boolean> = { fire: false, swap: false, hint: false };
+  let prevButtons = new Set<string>(); // "pad:button" pressed last poll, for edge detection
+
+  const actionFor = (code: string) => INPUT_ACTIONS.find(a => bindings.keys[a].includes(code));
+  const isOnControl = (e: KeyboardEvent) =>
+    e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, button, a, [contenteditable]');
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isOnControl(e)) return;
+    const action = actionFor(e.code);
+    if (!action) return;
+    e.preventDefault(); // Space and arrows would otherwise scroll the page
+    held.add(e.code);
+    if (!e.repeat && isOneShot(action)) pending[action] = true;
+  };
+  const onKeyUp = (e: KeyboardEvent) => { held.delete(e.code); };
+  const onBlur = () => held.clear();
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('keyup', onKeyUp);
+  window.addEventListener('blur', onBlur);
+
+  return {
+    poll(dt, aimAngle) {
+      const pads = connectedGamepads().filter(p => gamepad === undefined || p.index === gamepad);
+      const buttons = new Set<string>();
+      pads.forEach(p => p.buttons.forEach((b, i) => { if (b.pressed) buttons.add(`${p.index}:${i}`); }));
+      const isHeld = (a: InputAction) =>
+        bindings.keys[a].some(k => held.has(k)) || pads.some(p => bindings.buttons[a].some(i => buttons.has(`${p.index}:${i}`)));
+      const justPressed = (a: InputAction) =>
+        pads.some(p => bindings.buttons[a].some(i => buttons.has(`${p.index}:${i}`) && !prevButtons.has(`${p.index}:${i}`)));
+      prevButtons = buttons;
+
+      let turn = (isHeld('aimRight') ? 1 : 0) - (isHeld('aimLeft') ? 1 : 0);
+      let absolute: number | null = null;
+      for (const p of pads) {
+        const [lx = 0, , rx = 0, ry = 0] = p.axes;
+        if (Math.abs(lx) > STICK_DEADZONE) turn += lx;
+        // The right stick points the shot directly, as long as it points upward
+        if (Math.hypot(rx, ry) > STICK_AIM_MIN && ry < 0) absolute = Math.atan2(ry, rx);
+      }
+
+      const input: EngineInput = {};
+      if (absolute !== null) input.aimAngle = clampAim(absolute);
+      else if (turn !== 0) {
+        const rate = isHeld('fineAim') ? FINE_AIM_RATE : AIM_RATE;
+        input.aimAngle = clampAim(aimAngle + Math.max(-1, Math.min(1, turn)) * rate * dt);
+      }
+      if (pending.fire || justPressed('fire')) input.shoot = true;
+      if (pending.swap || justPressed('swap')) input.swap = true;
+      if (pending.hint || justPressed('hint')) input.hint = true;
+      pending.fire = pending.swap = pending.hint = false;
+      return input;
+    },
+    press(action) {
+      pending[action] = true;
+    },
+    dispose() {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import type {
+  BubbleColor, BubbleKind, ColorPolicy, Difficulty, EndlessCurve, GoalType, LayoutCell, LevelConfig, LevelGoal, PowerupKind,
+  StartingPattern,
+} from './types';
+import { MAX_COLS, MAX_ROWS, MIN_COLS } from './engine/constants';
+import { POWERUP_KINDS } from './engine/powerups';
+import { DEFAULT_ENDLESS } from './engine/endless';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+// Layout and queue cells are written as short tokens, e.g. "R", "B*", "G@", "#", ".":
+//   a color letter, optionally followed by a kind mark, then "@" for a rescue target;
+//   "#" is a gray obstacle and "." is empty
+export const COLOR_CODES: Record<string, BubbleColor> = {
+  R: 'red', B: 'blue', G: 'green', Y: 'yellow', P: 'purple', O: 'orange', C: 'cyan', K: 'pink',
+};
+export const KIND_CODES: Record<string, BubbleKind> = {
+  '*': 'rainbow', b: 'bomb', f: 'freeze', a: 'aim', c: 'colorBomb', l: 'laser', s: 'breaker', r: 'reverse',
+};
+export const GRAY_TOKEN = '#';
+export const EMPTY_TOKEN = '.';
+export const TARGET_MARK = '@';
+
+/** Level as stored on disk; LevelConfig plus token-encoded layout and queue. */
+export interface LevelFile extends Omit<LevelConfig, 'layout' | 'queue'> {
+  version: number;
+  layout?: string[]; // one string per row, tokens separated by spaces
+  queue?: string[];
+}
+
+export const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+export const PATTERNS: StartingPattern[] = ['simple', 'alternating', 'random'];
+export const GOAL_TYPES: GoalType[] = ['clear', 'score', 'drop', 'rescue', 'survive'];
+export const COLOR_POLICIES: ColorPolicy[] = ['uniform', 'present', 'adjacent'];
+
+export function parseCellToken(token: string): LayoutCell | null | undefined {
+  if (token === EMPTY_TOKEN) return null;
+  if (token === GRAY_TOKEN) return { color: 'gray', kind: 'normal' };
+  const target = token.length > 1 && token.endsWith(TARGET_MARK);
+  const body = target ? token.slice(0, -1) : token;
+  const color = COLOR_CODES[body[0]];
+  if (!color || body.length > 2) return undefined;
+  const kind = body.length === 1 ? 'normal' : KIND_CODES[body[1]];
+  if (!kind) return undefined;
+  return target ? { color, kind, target } : { color, kind };
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function checkGoal(goal: unknown, errors: string[]): LevelGoal | undefined {
+  const g = goal as LevelGoal;
+  if (!g || typeof g !== 'object') { errors.push('goal must be an object'); return; }
+  const positive = (value: unknown, field: string) => {
+    if (isNumber(value) && value > 0) return true;
+    errors.push(`goal.${field} must be a positive number`);
+    return false;
+  };
+  switch (g.type) {
+    case 'clear':
+      return { type: 'clear' };
+    case 'score':
+      if (!positive(g.target, 'target')) return;
+      if (g.shots === undefined) return { type: 'score', target: g.target };
+      if (!Number.isInteger(g.shots) || g.shots < 1) { errors.push('goal.shots must be a positive integer'); return; }
+      return { type: 'score', target: g.target, shots: g.shots };
+    case 'drop':
+      return positive(g.target, 'target') ? { type: 'drop', target: g.target } : undefined;
+    case 'rescue':
+      if (g.count === undefined) return { type: 'rescue' };
+      if (!Number.isInteger(g.count) || g.count < 1) { errors.push('goal.count must be a positive integer'); return; }
+      return { type: 'rescue', count: g.count };
+    case 'survive':
+      return positive(g.seconds, 'seconds') ? { type: 'survive', seconds: g.seconds } : undefined;
+  }
+  errors.push(`goal.type must be one of ${GOAL_TYPES.join(', ')}, got ${JSON.stringify((g as { type?: unknown }).type)}`);
+}
+
+// Every endless field is optional; scalars must be positive and ranges are [first wave, full ramp] pairs
+function checkEndless(endless: unknown, errors: string[]) {
+  if (!endless || typeof endless !== 'object' || Array.isArray(endless)) { errors.push('endless must be an object'); return; }
+  for (const [k, v] of Object.entries(endless)) {
+    const fallback = DEFAULT_ENDLESS[k as keyof EndlessCurve];
+    if (fallback === undefined) errors.push(`endless.${k} is not a ramp setting; use one of ${Object.keys(DEFAULT_ENDLESS).join(', ')}`);
+    else if (!Array.isArray(fallback)) { if (!isNumber(v) || v <= 0) errors.push(`endless.${k} must be a positive number`); }
+    else if (!Array.isArray(v) || v.length !== 2 || !v.every(n => isNumber(n) && n >= 0)) {
+      errors.push(`endless.${k} must be a [first, full] pair of numbers >= 0`);
+    } else if (k === 'colorsCount' && v.some(n => !Number.isInteger(n) || n < 1 || n > Object.keys(COLOR_CODES).length)) {
+      errors.push(`endless.colorsCount must be integers from 1 to ${Object.keys(COLOR_CODES).length}`);
+    } else if ((k === 'grayChance' || k === 'randomColorChance') && v.some(n => n > 1)) {
+      errors.push(`endless.${k} must be between 0 and 1`);
+    }
+  }
+}
+
+/**
+ * Check a parsed level file and convert it to a LevelConfig. Problems are collected
+ * rather than thrown one at a time, so a designer sees every mistake in one pass.
+ */
+export function validateLevelFile(data: unknown): { level?: LevelConfig; errors: string[] } {
+  const errors: string[] = [];
+  const f = data as Partial<LevelFile> | null;
+  if (!f || typeof f !== 'object' || Array.isArray(f)) return { errors: ['level file must be a JSON object'] };
+
+  if (f.version !== LEVEL_FORMAT_VERSION) errors.push(`version must be ${LEVEL_FORMAT_VERSION}, got ${JSON.stringify(f.version)}`);
+  if (!Number.isInteger(f.level) || f.level! < 1) errors.push('level must be a positive integer');
+  if (!DIFFICULTIES.includes(f.difficulty as Difficulty)) errors.push(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  if (!Number.isInteger(f.colorsCount) || f.colorsCount! < 1 || f.colorsCount! > Object.keys(COLOR_CODES).length) {
+    errors.push(`colorsCount must be an integer from 1 to ${Object.keys(COLOR_CODES).length}`);
+  }
+  if (!isNumber(f.descentSpeed) || f.descentSpeed < 0) errors.push('descentSpeed must be a number >= 0');
+  if (!PATTERNS.includes(f.startingPattern as StartingPattern)) errors.push(`startingPattern must be one of ${PATTERNS.join(', ')}`);
+  if (!Number.isInteger(f.unbreakableGrayCount) || f.unbreakableGrayCount! < 0) errors.push('unbreakableGrayCount must be an integer >= 0');
+  if (!isNumber(f.randomColorChance) || f.randomColorChance < 0 || f.randomColorChance > 1) errors.push('randomColorChance must be between 0 and 1');
+  for (const flag of ['doubleLayer', 'rainbowEnabled', 'reducedAim', 'puzzle'] as const) {
+    if (f[flag] !== undefined && typeof f[flag] !== 'boolean') errors.push(`${flag} must be true or false`);
+  }
+  if (f.colorPolicy !== undefined && !COLOR_POLICIES.includes(f.colorPolicy)) errors.push(`colorPolicy must be one of ${COLOR_POLICIES.join(', ')}`);
+  if (f.timeLimitSec !== undefined && (!isNumber(f.timeLimitSec) || f.timeLimitSec <= 0)) errors.push('timeLimitSec must be a positive number');
+  if (f.cols !== undefined && (!Number.isInteger(f.cols) || f.cols < MIN_COLS || f.cols > MAX_COLS)) {
+    errors.push(`cols must be an integer from ${MIN_COLS} to ${MAX_COLS}`);
+  }
+  if (f.scoring !== undefined) {
+    if (!f.scoring || typeof f.scoring !== 'object') errors.push('scoring must be an object');
+    else for (const [k, v] of Object.entries(f.scoring)) if (!isNumber(v)) errors.push(`scoring.${k} must be a number`);
+  }
+  if (f.hints !== undefined && (!Number.isInteger(f.hints) || f.hints < 0)) errors.push('hints must be an integer >= 0');
+  if (f.hintCost !== undefined && (!isNumber(f.hintCost) || f.hintCost < 0)) errors.push('hintCost must be a number >= 0');
+  if (f.endless !== undefined) checkEndless(f.endless, errors);
+  if (f.endless && (f.puzzle || f.goal || f.timeLimitSec)) errors.push('endless levels cannot have a puzzle, goal or time limit');
+  if (f.powerups !== undefined) {
+    if (!f.powerups || typeof f.powerups !== 'object') errors.push('powerups must be an object');
+    else for (const [k, v] of Object.entries(f.powerups)) {
+      if (!POWERUP_KINDS.includes(k as PowerupKind)) errors.push(`powerups.${k} is not a power-up; use one of ${POWERUP_KINDS.join(', ')}`);
+      else if (!isNumber(v) || v < 0 || v > 1) errors.push(`powerups.${k} must be between 0 and 1`);
+    }
+  }
+
+  let layout: LevelConfig['layout'];
+  if (f.layout !== undefined) {
+    if (!Array.isArray(f.layout)) errors.push('layout must be an array of row strings');
+    else if (!f.cols) errors.push('cols is required when a layout is given');
+    else if (f.layout.length > MAX_ROWS) errors.push(`layout has ${f.layout.length} rows; at most ${MAX_ROWS} are allowed`);
+    else {
+      layout = f.layout.map((row, r) => {
+        const expected = f.cols! - (r % 2 === 1 ? 1 : 0);
+        const tokens = typeof row === 'string' ? row.trim().split(/\s+/).filter(Boolean) : [];
+        if (tokens.length !== expected) errors.push(`layout row ${r + 1}: expected ${expected} cells, got ${tokens.length}`);
+        return tokens.map((token, c) => {
+          const cell = parseCellToken(token);
+          if (cell === undefined) errors.push(`layout row ${r + 1}, cell ${c + 1}: unknown token "${token}"`);
+          return cell ?? null;
+        });
+      });
+    }
+  }
+
+  let queue: LevelConfig['queue'];
+  if (f.queue !== undefined) {
+    if (!Array.isArray(f.queue)) errors.push('queue must be an array of tokens');
+    else {
+      queue = [];
+      f.queue.forEach((token, i) => {
+        const cell = typeof token === 'string' ? parseCellToken(token) : undefined;
+        if (!cell || cell.color === 'gray' || cell.target) errors.push(`queue item ${i + 1}: "${String(token)}" is not a shootable bubble`);
+        else queue!.push(cell);
+      });
+    }
+  }
+
+  if (f.puzzle && !queue?.length) errors.push('puzzle levels need a queue');
+
+  // Authored colors must come from the level's palette, the first colorsCount colors (COLOR_CODES is in palette order)
+  if (Number.isInteger(f.colorsCount)) {
+    const palette = Object.values(COLOR_CODES).slice(0, f.colorsCount);
+    const outside = (cell: LayoutCell | null) => !!cell && cell.color !== 'gray' && !palette.includes(cell.color);
+    layout?.forEach((row, r) => row.forEach((cell, c) => {
+      if (outside(cell)) errors.push(`layout row ${r + 1}, cell ${c + 1}: ${cell!.color} is outside the first ${f.colorsCount} colors`);
+    }));
+    queue?.forEach((cell, i) => {
+      if (outside(cell)) errors.push(`queue item ${i + 1}: ${cell.color} is outside the first ${f.colorsCount} colors`);
+    });
+  }
+
+  const goal = f.goal === undefined ? undefined : checkGoal(f.goal, errors);
+  if (goal?.type === 'rescue' && !goal.count && !layout?.some(row => row.some(cell => cell?.target))) {
+    errors.push(`a rescue goal needs "${TARGET_MARK}" targets in the layout or a goal.count`);
+  }
+  if (f.stars !== undefined) {
+    const [two, three] = Array.isArray(f.stars) ? f.stars : [];
+    if (!Array.isArray(f.stars) || f.stars.length !== 2 || !isNumber(two) || !isNumber(three) || two <= 0 || three < two) {
+      errors.push('stars must be [two, three] score thresholds with 0 < two <= three');
+    }
+  }
+
+  if (errors.length) return { errors };
+  const { version: _version, layout: _layout, queue: _queue, ...config } = f as LevelFile;
+  return { level: { ...config, layout, queue, goal }, errors };
+}
+
+export function parseLevelFile(data: unknown, source = 'level'): LevelConfig {
+  const { level, errors } = validateLevelFile(data);
+  if (!level) throw new Error(`Invalid ${source}:\n- ${errors.join('\n- ')}`);
+  return level;
+}
+
+export function formatCellToken(cell: LayoutCell | null): string {
+  if (!cell) return EMPTY_TOKEN;
+  if (cell.color === 'gray') return GRAY_TOKEN;
+  const letter = Object.keys(COLOR_CODES).find(k => COLOR_CODES[k] === cell.color)!;
+  const mark = Object.keys(KIND_CODES).find(k => KIND_CODES[k] === cell.kind) ?? '';
+  return letter + mark + (cell.target ? TARGET_MARK : '');
+}
+
+export function toLevelFile(level: LevelConfig): LevelFile {
+  const { layout, queue, ...config } = level;
+  const file: LevelFile = { version: LEVEL_FORMAT_VERSION, ...config };
+  if (layout) file.layout = layout.map(row => row.map(formatCellToken).join(' '));
+  if (queue?.length) file.queue = queue.map(formatCellToken);
+  return file;
+}
@@ -0,0 +1,51 @@
+import type { BubbleColor, LevelConfig } from '../types';
+import { parseLevelFile } from '../levelFormat';
+import level01 from './level-01.json';
+import level02 from './level-02.json';
+import level03 from './level-03.json';
+import level04 from './level-04.json';
+import level05 from './level-05.json';
+import level06 from './level-06.json';
+import level07 from './level-07.json';
+import level08 from './level-08.json';
+import level09 from './level-09.json';
+import level10 from './level-10.json';
+import level11 from './level-11.json';
+import level12 from './level-12.json';
+import level13 from './level-13.json';
+import level14 from './level-14.json';
+import level15 from './level-15.json';
+import level16 from './level-16.json';
+import level17 from './level-17.json';
+import level18 from './level-18.json';
+import level19 from './level-19.json';
+import level20 from './level-20.json';
+import level21 from './level-21.json';
+
+// Colors in the order levels introduce them; colorsCount takes a prefix of this list
+export const BASE_COLORS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange', 'cyan', 'pink'];
+
+// Authored level files, validated at load so a broken file fails loudly in development
+const LEVEL_FILES: unknown[] = [
+  level01, level02, level03, level04, level05,
+  level06, level07, level08, level09, level10,
+  level11, level12, level13, level14, level15,
+  level16, level17, level18, level19, level20,
+  level21,
+];
+
+export const LEVELS: LevelConfig[] = LEVEL_FILES.map((data, i) => parseLevelFile(data, `level-${String(i + 1).padStart(2, '0')}.json`));
+
+// Endless runs: the palette, descent and row odds come from the wave ramp instead of these fields.
+// Level 0 keeps the mode's telemetry and records apart from the numbered levels.
+export const ENDLESS_LEVEL: LevelConfig = {
+  level: 0,
+  difficulty: 'Medium',
+  colorsCount: 3,
+  descentSpeed: 0,
+  startingPattern: 'simple',
+  unbreakableGrayCount: 0,
+  randomColorChance: 0,
+  colorPolicy: 'adjacent',
+  endless: {},
+};
@@ -0,0 +1,196 @@
+import type { LevelConfig } from './types';
+import { TICK_SEC, createEngine, step } from './engine';
+import type { EngineEvent, EngineInput, EngineState } from './engine';
+import { toLevelFile, validateLevelFile } from './levelFormat';
+import { ENDLESS_LEVEL } from './levels';
+
+export const REPLAY_VERSION = 3; // 2: fixed board size, no longer recorded; 3: queue colors refresh when a life is lost
+
+// Compact tuples keyed by simulation tick:
+//   'r' new board (level start or restart) with lives
+//   'a' aim angle, 's' shoot, 'w' swap queued shots, 'h' hint, 'm' muted (0/1), 'l' lives changed from outside the engine
+export type ReplayEntry =
+  | [tick: number, type: 'r', lives: number]
+  | [tick: number, type: 'a', angle: number]
+  | [tick: number, type: 's']
+  | [tick: number, type: 'w']
+  | [tick: number, type: 'h']
+  | [tick: number, type: 'm', muted: 0 | 1]
+  | [tick: number, type: 'l', lives: number];
+
+export interface ReplayResult {
+  score: number;
+  won: boolean;
+}
+
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  level: LevelConfig;
+  tickSec: number;
+  ticks: number;
+  inputs: ReplayEntry[];
+  result?: ReplayResult;
+}
+
+// Aim is stored at 1e-4 rad; the live game applies the same rounded value so both runs match
+const quantizeAngle = (a: number) => Math.round(a * 10000) / 10000;
+
+export interface Recorder {
+  /** Call once per engine step, before stepping; returns the input to apply. */
+  tick: (input: EngineInput) => EngineInput;
+  begin: (lives: number) => void;
+  setLives: (lives: number) => void;
+  setMuted: (muted: boolean) => void;
+  finish: (result: ReplayResult) => ReplayFile;
+  toFile: () => ReplayFile;
+}
+
+export function createRecorder(level: LevelConfig, seed: number): Recorder {
+  const inputs: ReplayEntry[] = [];
+  let ticks = 0;
+  let lastAngle: number | null = null;
+  let result: ReplayResult | undefined;
+
+  const toFile = (): ReplayFile => ({
+    version: REPLAY_VERSION, seed, level, tickSec: TICK_SEC, ticks, inputs: inputs.slice(), result,
+  });
+
+  return {
+    tick(input) {
+      const applied: EngineInput = { ...input };
+      if (result) return applied;
+      if (input.aimAngle !== undefined) {
+        applied.aimAngle = quantizeAngle(input.aimAngle);
+        if (applied.aimAngle !== lastAngle) inputs.push([ticks, 'a', applied.aimAngle]);
+        lastAngle = applied.aimAngle;
+      }
+      if (input.swap) inputs.push([ticks, 'w']);
+      if (input.hint) inputs.push([ticks, 'h']);
+      if (input.shoot) inputs.push([ticks, 's']);
+      ticks++;
+      return applied;
+    },
+    begin(lives) {
+      if (result) return;
+      inputs.push([ticks, 'r', lives]);
+      lastAngle = null;
+    },
+    setLives(lives) {
+      if (!result) inputs.push([ticks, 'l', lives]);
+    },
+    setMuted(muted) {
+      if (!result) inputs.push([ticks, 'm', muted ? 1 : 0]);
+    },
+    finish(res) {
+      result = res;
+      return toFile();
+    },
+    toFile,
+  };
+}
+
+export function serializeReplay(file: ReplayFile) {
+  return JSON.stringify(file);
+}
+
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+
+// Checks the shape of each entry and that ticks never go backwards or past the end
+function checkEntries(inputs: unknown[], ticks: number) {
+  let prev = 0;
+  inputs.forEach((raw, i) => {
+    const entry = raw as unknown[];
+    const [tick, type, value] = Array.isArray(entry) ? entry : [];
+    if (!isCount(tick) || tick < prev || tick > ticks) throw new Error(`Invalid replay: input ${i + 1} has a bad tick`);
+    prev = tick;
+    const arity = entry.length;
+    const valid =
+      type === 'r' || type === 'l' ? arity === 3 && isCount(value)
+      : type === 'a' ? arity === 3 && typeof value === 'number' && Number.isFinite(value)
+      : type === 'm' ? arity === 3 && (value === 0 || value === 1)
+      : (type === 's' || type === 'w' || type === 'h') && arity === 2;
+    if (!valid) throw new Error(`Invalid replay: input ${i + 1} is not a known entry`);
+  });
+}
+
+// The embedded level goes through the same checks as a level file, so a bad one is reported here, not mid-playback.
+// Endless runs are numbered with a sentinel that level files can't use, so that number is set aside while checking.
+function checkLevel(level: unknown) {
+  let errors: string[];
+  let checked: LevelConfig | undefined;
+  try {
+    const config = level as LevelConfig;
+    const endless = !!config.endless && config.level === ENDLESS_LEVEL.level;
+    ({ level: checked, errors } = validateLevelFile(toLevelFile(endless ? { ...config, level: 1 } : config)));
+    if (checked && endless) checked = { ...checked, level: ENDLESS_LEVEL.level };
+  } catch {
+    errors = ['not a level'];
+  }
+  if (!checked) throw new Error(`Invalid replay level:\n- ${errors.join('\n- ')}`);
+  return checked;
+}
+
+export function parseReplay(text: string): ReplayFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid replay: not JSON');
+  }
+  const file = data as ReplayFile;
+  if (!file || typeof file !== 'object') throw new Error('Invalid replay: expected an object');
+  if (file.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${String(file.version)}`);
+  if (typeof file.seed !== 'number') throw new Error('Invalid replay: missing seed');
+  if (!file.level || typeof file.level !== 'object') throw new Error('Invalid replay: missing level');
+  if (file.tickSec !== TICK_SEC) throw new Error('Invalid replay: recorded with a different tick rate');
+  if (!Array.isArray(file.inputs) || !isCount(file.ticks)) throw new Error('Invalid replay: missing inputs');
+  if (file.inputs[0]?.[1] !== 'r') throw new Error('Invalid replay: must start with a board');
+  checkEntries(file.inputs, file.ticks);
+  return { ...file, level: checkLevel(file.level) };
+}
+
+export interface Playback {
+  file: ReplayFile;
+  engine: EngineState | null;
+  tick: number;
+  cursor: number;
+  muted: boolean;
+}
+
+export function createPlayback(file: ReplayFile): Playback {
+  return { file, engine: null, tick: 0, cursor: 0, muted: false };
+}
+
+export function isPlaybackDone(pb: Playback) {
+  return pb.tick >= pb.file.ticks;
+}
+
+/** Apply the inputs recorded for the current tick and step the engine once. */
+export function advancePlayback(pb: Playback): EngineEvent[] {
+  if (isPlaybackDone(pb)) return [];
+  const { file } = pb;
+  const input: EngineInput = {};
+  while (pb.cursor < file.inputs.length && file.inputs[pb.cursor][0] === pb.tick) {
+    const entry = file.inputs[pb.cursor++];
+    switch (entry[1]) {
+      case 'r': pb.engine = createEngine(file.level, file.seed, entry[2]); break;
+      case 'a': input.aimAngle = entry[2]; break;
+      case 's': input.shoot = true; break;
+      case 'w': input.swap = true; break;
+      case 'h': input.hint = true; break;
+      case 'm': pb.muted = entry[2] === 1; break;
+      case 'l': if (pb.engine) pb.engine.lives = entry[2]; break;
+    }
+  }
+  pb.tick++;
+  return pb.engine ? step(pb.engine, input, file.tickSec) : [];
+}
+
+// Seeking re-simulates from the start; the rules are deterministic so this lands on the same state
+export function seekPlayback(file: ReplayFile, tick: number): Playback {
+  const pb = createPlayback(file);
+  const target = Math.max(0, Math.min(file.ticks, tick));
+  while (pb.tick < target) advancePlayback(pb);
+  return pb;
+}
@@ -0,0 +1,76 @@
+// Seedable PRNG (mulberry32). The whole generator state is one uint32, so it can be
+// stored inside plain game state and copied or serialized with it.
+export interface Rng {
+  state: number;
+}
+
+export function createRng(seed: number): Rng {
+  return { state: seed >>> 0 };
+}
+
+// Float in [0, 1)
+export function random(rng: Rng) {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function randomInt(rng: Rng, max: number) {
+  return Math.floor(random(rng) * max);
+}
+
+export function pick<T>(rng: Rng, list: readonly T[]): T {
+  return list[randomInt(rng, list.length)];
+}
+
+// Index chosen with probability proportional to its weight; falls back to uniform when all weights are 0
+export function pickWeighted<T>(rng: Rng, list: readonly T[], weights: readonly number[]): T {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return pick(rng, list);
+  let roll = random(rng) * total;
+  for (let i = 0; i < list.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return list[i];
+  }
+  return list[list.length - 1];
+}
+
+export function randomId(rng: Rng) {
+  return random(rng).toString(36).slice(2, 9);
+}
+
+// FNV-1a, used to turn arbitrary text (e.g. "daily-2026-10-19") into a seed
+function hashString(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Seeds are shown and shared as short base-36 strings
+export function formatSeed(seed: number) {
+  return (seed >>> 0).toString(36).toUpperCase();
+}
+
+export function parseSeed(text: string | null | undefined): number | null {
+  const trimmed = text?.trim();
+  if (!trimmed) return null;
+  if (/^[0-9a-z]{1,7}$/i.test(trimmed)) {
+    const n = parseInt(trimmed, 36);
+    if (n <= 0xffffffff) return n;
+  }
+  return hashString(trimmed);
+}
+
+// Independent per-level seed from a run seed, so each level's board is reproducible on its own
+export function deriveSeed(seed: number, salt: number) {
+  return hashString(formatSeed(seed) + ':' + salt);
+}
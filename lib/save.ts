@@ -0,0 +1,174 @@
+import type { GameStats, LevelResult } from './types';
+import { initialStats } from './scoring';
+import { DEFAULT_BINDINGS, resolveBindings } from './input';
+import type { InputBindings } from './input';
+import { DEFAULT_ACCESSIBILITY, resolveAccessibility } from './accessibility';
+import type { AccessibilitySettings } from './accessibility';
+import { DEFAULT_AUDIO, resolveAudio } from './audio';
+import type { AudioMix } from './audio';
+
+export const SAVE_VERSION = 2; // 2: star ratings, sound mix, bindings, accessibility and the endless leaderboard
+export const SAVE_KEY = 'colorburst.save';
+export const LEADERBOARD_SIZE = 10;
+
+// Campaign runs and endless runs are ranked separately
+export type LeaderboardCategory = 'campaign' | 'endless';
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  level: number; // level reached, or the wave for endless runs
+  seed: string;
+  date: string; // ISO timestamp
+}
+
+export interface LevelRecord {
+  bestScore: number;
+  bestTimeSec: number;
+  fewestShots: number;
+  bestStars?: number; // missing in saves written before stars existed
+}
+
+export interface SaveData {
+  version: number;
+  unlockedIndex: number; // highest playable index into LEVELS
+  leaderboard: LeaderboardEntry[];
+  endlessLeaderboard: LeaderboardEntry[];
+  levels: Record<number, LevelRecord>; // keyed by level number
+  settings: { audio: AudioMix; playerName: string; bindings: InputBindings; accessibility: AccessibilitySettings };
+  progress: { levelIndex: number; stats: GameStats } | null;
+}
+
+export function emptySave(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    unlockedIndex: 0,
+    leaderboard: [],
+    endlessLeaderboard: [],
+    levels: {},
+    settings: { audio: DEFAULT_AUDIO, playerName: '', bindings: DEFAULT_BINDINGS, accessibility: DEFAULT_ACCESSIBILITY },
+    progress: null,
+  };
+}
+
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function checkLeaderboard(value: unknown, field: string): LeaderboardEntry[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`Invalid save: ${field} must be a list`);
+  value.forEach((e: Partial<LeaderboardEntry> | null, i) => {
+    const valid = !!e && typeof e.name === 'string' && isNumber(e.score) && isCount(e.level)
+      && typeof e.seed === 'string' && typeof e.date === 'string';
+    if (!valid) throw new Error(`Invalid save: ${field} entry ${i + 1} is malformed`);
+  });
+  return value.slice(0, LEADERBOARD_SIZE);
+}
+
+function checkLevels(value: unknown): SaveData['levels'] {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Invalid save: levels must be an object');
+  for (const [level, r] of Object.entries(value as Record<string, Partial<LevelRecord> | null>)) {
+    const valid = !!r && isNumber(r.bestScore) && isNumber(r.bestTimeSec) && isCount(r.fewestShots)
+      && (r.bestStars === undefined || isCount(r.bestStars));
+    if (!valid) throw new Error(`Invalid save: record for level ${level} is malformed`);
+  }
+  return value as SaveData['levels'];
+}
+
+// Upgrade older saves here when SAVE_VERSION is bumped; unknown shapes are rejected.
+// Version 1 saves differ only in missing fields, which the defaults below fill in.
+function migrate(raw: unknown): SaveData {
+  const data = raw as Partial<SaveData> | null;
+  if (!data || typeof data !== 'object') throw new Error('Invalid save: expected an object');
+  if (data.version !== 1 && data.version !== SAVE_VERSION) throw new Error(`Unsupported save version: ${String(data.version)}`);
+  if (data.unlockedIndex !== undefined && !isCount(data.unlockedIndex)) throw new Error('Invalid save: unlockedIndex must be an integer >= 0');
+  if (data.progress && (!isCount(data.progress.levelIndex) || typeof data.progress.stats !== 'object')) {
+    throw new Error('Invalid save: progress is malformed');
+  }
+  const base = emptySave();
+  const { muted, ...settings } = (data.settings ?? {}) as Partial<SaveData['settings']> & { muted?: boolean };
+  return {
+    ...base,
+    ...data,
+    version: SAVE_VERSION,
+    leaderboard: checkLeaderboard(data.leaderboard, 'leaderboard'),
+    endlessLeaderboard: checkLeaderboard(data.endlessLeaderboard, 'endlessLeaderboard'),
+    levels: checkLevels(data.levels),
+    settings: {
+      ...base.settings,
+      ...settings,
+      audio: resolveAudio({ muted, ...settings.audio }), // mute used to be the only sound setting
+      bindings: resolveBindings(settings.bindings),
+      accessibility: resolveAccessibility(settings.accessibility),
+    },
+    // Progress saved before the shot tallies existed starts them at zero
+    progress: data.progress ? { ...data.progress, stats: { ...initialStats(), ...data.progress.stats } } : null,
+  };
+}
+
+export function parseSave(text: string): SaveData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid save: not JSON');
+  }
+  return migrate(raw);
+}
+
+export function serializeSave(save: SaveData) {
+  return JSON.stringify(save, null, 2);
+}
+
+export function loadSave(): SaveData {
+  try {
+    const text = window.localStorage.getItem(SAVE_KEY);
+    return text ? parseSave(text) : emptySave();
+  } catch {
+    // Corrupt or incompatible data should not block playing
+    return emptySave();
+  }
+}
+
+export function writeSave(save: SaveData) {
+  try {
+    window.localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Storage full or disabled (private mode); progress just won't persist
+  }
+}
+
+export function recordLevelClear(save: SaveData, levelIndex: number, level: number, result: LevelResult): SaveData {
+  const prev = save.levels[level];
+  const record: LevelRecord = prev ? {
+    bestScore: Math.max(prev.bestScore, result.levelScore),
+    bestTimeSec: Math.min(prev.bestTimeSec, result.timeSec),
+    fewestShots: Math.min(prev.fewestShots, result.shots),
+    bestStars: Math.max(prev.bestStars ?? 0, result.stars),
+  } : { bestScore: result.levelScore, bestTimeSec: result.timeSec, fewestShots: result.shots, bestStars: result.stars };
+  return {
+    ...save,
+    unlockedIndex: Math.max(save.unlockedIndex, levelIndex + 1),
+    levels: { ...save.levels, [level]: record },
+  };
+}
+
+const LEADERBOARD_KEYS = { campaign: 'leaderboard', endless: 'endlessLeaderboard' } as const;
+
+export function leaderboardOf(save: SaveData, category: LeaderboardCategory = 'campaign') {
+  return save[LEADERBOARD_KEYS[category]];
+}
+
+export function qualifiesForLeaderboard(save: SaveData, score: number, category: LeaderboardCategory = 'campaign') {
+  if (score <= 0) return false;
+  const board = leaderboardOf(save, category);
+  return board.length < LEADERBOARD_SIZE || score > board[board.length - 1].score;
+}
+
+export function addLeaderboardEntry(save: SaveData, entry: LeaderboardEntry, category: LeaderboardCategory = 'campaign'): SaveData {
+  const board = [...leaderboardOf(save, category), entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, LEADERBOARD_SIZE);
+  return { ...save, [LEADERBOARD_KEYS[category]]: board, settings: { ...save.settings, playerName: entry.name } };
+}
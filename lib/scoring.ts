@@ -0,0 +1,72 @@
+import type { GameStats, LevelConfig, ScoringRules, ShotStats } from './types';
+import type { ShotOutcome } from './engine';
+
+export const DEFAULT_SCORING: ScoringRules = {
+  matchPoints: 10,
+  dropPoints: 5,
+  timeBonus: 500,
+  timeBonusPerSec: 5,
+  lifeBonus: 50,
+  startingLives: 3,
+  continuePenalty: 0.5,
+  chainBonus: 0.5,
+  maxMultiplier: 3,
+  dropBonus: 1,
+  bankShotPoints: 15,
+};
+
+export function resolveScoring(level: LevelConfig): ScoringRules {
+  return { ...DEFAULT_SCORING, ...level.scoring };
+}
+
+export function emptyShotStats(): ShotStats {
+  return { hits: 0, misses: 0, longestChain: 0, largestDrop: 0, bounces: 0 };
+}
+
+export function initialStats(): GameStats {
+  return { score: 0, shots: 0, levelReached: 1, continues: 0, ...emptyShotStats() };
+}
+
+// Share of resolved shots that cleared something
+export function accuracyOf(stats: ShotStats) {
+  const resolved = stats.hits + stats.misses;
+  return resolved > 0 ? Math.round((stats.hits / resolved) * 100) : 100;
+}
+
+// Fold one level's tallies into the run's
+export function addShotStats<T extends ShotStats>(total: T, level: ShotStats): T {
+  return {
+    ...total,
+    hits: total.hits + level.hits,
+    misses: total.misses + level.misses,
+    longestChain: Math.max(total.longestChain, level.longestChain),
+    largestDrop: Math.max(total.largestDrop, level.largestDrop),
+    bounces: total.bounces + level.bounces,
+  };
+}
+
+// One resolved shot as stats, ready to add to a running total
+export function shotStatsOf(shot: ShotOutcome): ShotStats {
+  return {
+    hits: shot.hit ? 1 : 0, misses: shot.hit ? 0 : 1, longestChain: shot.chain, largestDrop: shot.dropped, bounces: shot.bounces,
+  };
+}
+
+// 1x for the first matching shot, growing with each consecutive one up to the cap
+export function chainMultiplier(rules: ScoringRules, chain: number) {
+  return Math.min(rules.maxMultiplier, 1 + rules.chainBonus * Math.max(0, chain - 1));
+}
+
+// Each dropped bubble is worth more the bigger the drop
+export function dropScore(rules: ScoringRules, count: number) {
+  return count * (rules.dropPoints + rules.dropBonus * (count - 1));
+}
+
+export function starsLabel(stars: number) {
+  return '★'.repeat(stars) + '☆'.repeat(Math.max(0, 3 - stars));
+}
+
+// Retrying after game over keeps the run going but forfeits part of its score
+export function continueRun(stats: GameStats, rules: ScoringRules): GameStats {
+  return { ...stats, score: Math.floor(stats.score * (1 - rules.continuePenalty)), continues: stats.continues + 1 };
+}
@@ -0,0 +1,15 @@
+import type { EngineEvent } from './engine';
+import { playCombo, playLose, playPop, playWin } from './audio';
+
+// Sound cue for an engine event; shared by live play and replays. Volume and mute live in the mixer.
+export function playEventSound(e: EngineEvent) {
+  switch (e.type) {
+    case 'match': playPop(Math.min(1.5, 0.6 + e.count * 0.05)); break;
+    case 'blast': playPop(Math.min(1.5, 0.5 + e.count * 0.1)); break;
+    case 'powerup': playPop(1); break;
+    case 'drop': playCombo(Math.min(5, 1 + Math.floor(e.count / 3))); break;
+    case 'wave': playCombo(3); break;
+    case 'lifeLost': playLose(); break;
+    case 'win': playWin(); break;
+  }
+}
@@ -0,0 +1,98 @@
+import type { Difficulty, GoalType, LevelConfig } from './types';
+import { TICK_SEC, createEngine, step } from './engine';
+import type { LoseCause } from './engine';
+import { DEFAULT_BOT, createBot } from './bot';
+import type { BotOptions } from './bot';
+import { deriveSeed } from './rng';
+
+// Headless batch play: the bot plays seeded games at the fixed tick with no rendering,
+// so level difficulty can be compared across the whole level list
+
+export interface SimOptions {
+  games: number; // per level
+  seed: number; // base seed; game i of a level plays deriveSeed(seed, i)
+  maxSec: number; // a game still going after this long counts as a timeout
+  bot: BotOptions;
+}
+
+export const DEFAULT_SIM: SimOptions = { games: 20, seed: 1, maxSec: 600, bot: DEFAULT_BOT };
+
+export interface GameRun {
+  won: boolean;
+  goal: GoalType | null; // objective that ended a won game
+  shots: number;
+  timeSec: number;
+  score: number;
+  livesLost: Partial<Record<LoseCause, number>>;
+  timedOut: boolean;
+}
+
+// Lives come from the level's scoring, as at the start of a run; the game ends when they run out
+export function playGame(level: LevelConfig, seed: number, opts: SimOptions = DEFAULT_SIM): GameRun {
+  const engine = createEngine(level, seed);
+  const bot = createBot(seed, opts.bot);
+  const livesLost: GameRun['livesLost'] = {};
+  const maxTicks = Math.ceil(opts.maxSec / TICK_SEC);
+  for (let tick = 0; tick < maxTicks; tick++) {
+    for (const e of step(engine, bot.input(engine), TICK_SEC)) {
+      if (e.type === 'win') {
+        return { won: true, goal: e.result.goal, shots: engine.shots, timeSec: tick * TICK_SEC, score: e.result.levelScore, livesLost, timedOut: false };
+      }
+      if (e.type !== 'lifeLost') continue;
+      livesLost[e.cause] = (livesLost[e.cause] ?? 0) + 1;
+      engine.lives--;
+      if (engine.lives <= 0) {
+        return { won: false, goal: null, shots: engine.shots, timeSec: tick * TICK_SEC, score: engine.score, livesLost, timedOut: false };
+      }
+    }
+  }
+  return { won: false, goal: null, shots: engine.shots, timeSec: opts.maxSec, score: engine.score, livesLost, timedOut: true };
+}
+
+export interface LevelReport {
+  level: number;
+  difficulty: Difficulty;
+  games: number;
+  winRate: number; // 0..1
+  avgShots: number;
+  avgTimeSec: number;
+  avgScore: number;
+  livesLost: Partial<Record<LoseCause, number>>; // totals across all games
+  timeouts: number;
+}
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+const round = (n: number, places = 1) => Math.round(n * 10 ** places) / 10 ** places;
+
+export function simulateLevel(level: LevelConfig, opts: SimOptions = DEFAULT_SIM): LevelReport {
+  const runs = Array.from({ length: opts.games }, (_, i) => playGame(level, deriveSeed(opts.seed, i), opts));
+  const livesLost: LevelReport['livesLost'] = {};
+  for (const run of runs) {
+    for (const [cause, n] of Object.entries(run.livesLost) as [LoseCause, number][]) livesLost[cause] = (livesLost[cause] ?? 0) + n;
+  }
+  return {
+    level: level.level,
+    difficulty: level.difficulty,
+    games: runs.length,
+    winRate: round(runs.filter(r => r.won).length / Math.max(1, runs.length), 3),
+    avgShots: round(average(runs.map(r => r.shots))),
+    avgTimeSec: round(average(runs.map(r => r.timeSec))),
+    avgScore: Math.round(average(runs.map(r => r.score))),
+    livesLost,
+    timeouts: runs.filter(r => r.timedOut).length,
+  };
+}
+
+const CAUSES: LoseCause[] = ['danger', 'timer', 'shots', 'overflow'];
+
+// Fixed-width text table, one row per level
+export function formatReportTable(reports: LevelReport[]) {
+  const header = ['Level', 'Difficulty', 'Games', 'Win %', 'Shots', 'Time s', 'Score', ...CAUSES.map(c => `Lost: ${c}`), 'Timeouts'];
+  const rows = reports.map(r => [
+    String(r.level), r.difficulty, String(r.games), (r.winRate * 100).toFixed(1), r.avgShots.toFixed(1), r.avgTimeSec.toFixed(1),
+    String(r.avgScore), ...CAUSES.map(c => String(r.livesLost[c] ?? 0)), String(r.timeouts),
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join('  ');
+  return [line(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+}
@@ -0,0 +1,129 @@
+export type BubbleColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange' | 'cyan' | 'pink' | 'gray';
+
+export type BubbleKind = 'normal' | 'rainbow' | 'bomb' | 'freeze' | 'aim' | 'colorBomb' | 'laser' | 'breaker' | 'reverse';
+
+export type PowerupKind = Exclude<BubbleKind, 'normal'>;
+
+export interface Bubble {
+  id: string;
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+  color: BubbleColor;
+  kind: BubbleKind;
+  stationary: boolean;
+  target?: boolean; // trapped bubble to free for a rescue goal
+}
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard' | 'Expert';
+
+export type StartingPattern = 'simple' | 'alternating' | 'random';
+
+// One authored cell; gray obstacles use color 'gray'
+export interface LayoutCell {
+  color: BubbleColor;
+  kind: BubbleKind;
+  target?: boolean;
+}
+
+export type LevelGoal =
+  | { type: 'clear' } // clear every colored bubble
+  | { type: 'score'; target: number; shots?: number } // running out of the shot budget costs a life
+  | { type: 'drop'; target: number } // bubbles dropped in total
+  | { type: 'rescue'; count?: number } // free every target bubble; `count` marks random ones on generated boards
+  | { type: 'survive'; seconds: number }; // hold out against the descent
+
+export type GoalType = LevelGoal['type'];
+
+// How shooter colors are rolled: any palette color, only colors still on the board,
+// or weighted toward colors that shots can actually reach
+export type ColorPolicy = 'uniform' | 'present' | 'adjacent';
+
+export interface LevelConfig {
+  level: number;
+  difficulty: Difficulty;
+  colorsCount: number;
+  descentSpeed: number; // px/s
+  startingPattern: StartingPattern;
+  doubleLayer?: boolean;
+  unbreakableGrayCount: number;
+  randomColorChance: number; // chance a descending-row bubble ignores the level palette
+  rainbowEnabled?: boolean;
+  timeLimitSec?: number;
+  reducedAim?: boolean;
+  scoring?: Partial<ScoringRules>; // overrides DEFAULT_SCORING for this level
+  cols?: number; // fixed board width; required with a layout
+  layout?: (LayoutCell | null)[][]; // authored starting board, replaces startingPattern and random grays
+  queue?: LayoutCell[]; // authored shots, fired before random ones
+  goal?: LevelGoal; // defaults to clear; clearing the board always wins
+  colorPolicy?: ColorPolicy; // defaults to 'present'
+  puzzle?: boolean; // only the authored queue: no refills, no descent, running out of shots costs a life
+  stars?: [number, number]; // level score needed for two and three stars
+  powerups?: Partial<Record<PowerupKind, number>>; // spawn chance per random shot, overriding the defaults
+  hints?: number; // hints allowed per level; 0 turns them off
+  hintCost?: number; // points taken for each hint
+  endless?: Partial<EndlessCurve>; // no goal: rows keep coming and the board ramps up wave by wave, overriding DEFAULT_ENDLESS
+}
+
+// How an endless run ramps up; each range goes from its first-wave value to its full-ramp value
+export interface EndlessCurve {
+  waveSec: number; // a new wave starts this often...
+  waveScore: number; // ...or each time the score passes another multiple of this, whichever is sooner
+  rampWaves: number; // waves from the first to full difficulty
+  curve: number; // exponent on the ramp: 1 is linear, higher stays gentle longer and climbs late
+  descentSpeed: [number, number]; // px/s
+  colorsCount: [number, number];
+  grayChance: [number, number]; // chance each bubble of a new row is a gray obstacle
+  randomColorChance: [number, number];
+}
+
+export interface ScoringRules {
+  matchPoints: number; // per bubble in a match
+  dropPoints: number; // per bubble dropped after a match
+  timeBonus: number; // bonus for an instant clear, reduced as the clock runs
+  timeBonusPerSec: number;
+  lifeBonus: number; // per life left when the level is cleared
+  startingLives: number;
+  continuePenalty: number; // share of the run score lost when retrying after game over (0..1)
+  chainBonus: number; // added to the score multiplier for each consecutive matching shot
+  maxMultiplier: number;
+  dropBonus: number; // extra points per dropped bubble for every other bubble in the same drop
+  bankShotPoints: number; // per wall bounce on a shot that makes a match
+}
+
+// When each timed power-up wears off, in engine ms
+export type PowerupState = Partial<Record<PowerupKind, number>>;
+
+export interface LevelResult {
+  levelScore: number;
+  timeSec: number;
+  shots: number;
+  goal: GoalType; // objective that ended the level
+  stars: number; // 1..3
+  stats: ShotStats; // this attempt at the level
+  breakdown: ScoreBreakdown;
+}
+
+// Where a level score came from; the parts add up to levelScore
+export interface ScoreBreakdown {
+  play: number; // matches and drops
+  timeBonus: number;
+  lifeBonus: number;
+}
+
+// A hit clears something (a match or a power-up); a miss just sticks to the board
+export interface ShotStats {
+  hits: number;
+  misses: number;
+  longestChain: number; // consecutive matching shots
+  largestDrop: number;
+  bounces: number; // wall bounces on hits
+}
+
+export interface GameStats extends ShotStats {
+  score: number;
+  shots: number;
+  levelReached: number;
+  continues: number;
+}
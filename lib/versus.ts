@@ -0,0 +1,58 @@
+import type { LevelConfig, ShotStats } from './types';
+import { emptyShotStats } from './scoring';
+
+// Local two-player rules: both boards start from the same level and seed, dropping bubbles
+// sends garbage rows to the opponent, and running out of lives loses the match
+
+export const VERSUS_LIVES = [1, 2, 3]; // choices offered before a match
+export const GARBAGE_DROP_SIZE = 3; // bubbles dropped per garbage row sent
+export const MAX_GARBAGE_ROWS = 3; // per shot, so one huge drop can't end the match outright
+
+export function garbageRowsFor(dropped: number) {
+  return Math.min(MAX_GARBAGE_ROWS, Math.floor(dropped / GARBAGE_DROP_SIZE));
+}
+
+// Versus always plays to a cleared board with no clock or shot budget; puzzles can't be played this way
+export function versusLevel(level: LevelConfig): LevelConfig {
+  return { ...level, goal: { type: 'clear' }, timeLimitSec: undefined, puzzle: undefined, queue: undefined, stars: undefined };
+}
+
+export const isVersusPlayable = (level: LevelConfig) => !level.puzzle;
+
+export interface PlayerState {
+  name: string;
+  score: number;
+  lives: number;
+  stats: ShotStats;
+  garbageSent: number; // rows
+}
+
+export function initialPlayer(name: string, lives: number): PlayerState {
+  return { name, score: 0, lives, stats: emptyShotStats(), garbageSent: 0 };
+}
+
+export interface VersusResult {
+  winner: number; // player index
+  players: [PlayerState, PlayerState];
+  timeSec: number;
+}
+
+// Rows waiting to be pushed onto a board; the board takes them on its next simulation tick
+export interface GarbageInbox {
+  send: (rows: number) => void;
+  take: () => number;
+}
+
+export function createGarbageInbox(): GarbageInbox {
+  let pending = 0;
+  return {
+    send(rows) {
+      pending += rows;
+    },
+    take() {
+      const rows = pending;
+      pending = 0;
+      return rows;
+    },
+  };
+}
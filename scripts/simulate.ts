@@ -0,0 +1,76 @@
+// Batch-play levels with the bot and report how hard each one really is.
+// Run with a TypeScript runner for Node, e.g.:
+//   npx tsx scripts/simulate.ts --games 50 --levels 1-10
+//   npx tsx scripts/simulate.ts --levels 5,8 --aim-error 0.03 --json > report.json
+import { LEVELS } from '../lib/levels';
+import { DEFAULT_BOT } from '../lib/bot';
+import { DEFAULT_SIM, formatReportTable, simulateLevel } from '../lib/simulate';
+import type { SimOptions } from '../lib/simulate';
+
+const USAGE = `Usage: simulate [options]
+  --games N          games per level (default ${DEFAULT_SIM.games})
+  --levels LIST      level numbers, e.g. 1-5,8 (default all)
+  --seed N           base seed (default ${DEFAULT_SIM.seed})
+  --max-sec N        seconds before a game counts as a timeout (default ${DEFAULT_SIM.maxSec})
+  --aim-error RAD    random aim error per shot (default ${DEFAULT_BOT.aimError})
+  --interval SEC     minimum time between shots (default ${DEFAULT_BOT.shotIntervalSec})
+  --json             print JSON instead of a table`;
+
+function parseNumber(flag: string, value: string | undefined) {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n) || n < 0) throw new Error(`Invalid ${flag}: ${String(value)}`);
+  return n;
+}
+
+function parseLevels(list: string) {
+  const levels = new Set<number>();
+  for (const part of list.split(',')) {
+    const [from, to = from] = part.split('-').map(Number);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from > to) throw new Error(`Invalid --levels: ${list}`);
+    for (let n = from; n <= to; n++) levels.add(n);
+  }
+  return levels;
+}
+
+function parseArgs(args: string[]) {
+  const opts: SimOptions = { ...DEFAULT_SIM, bot: { ...DEFAULT_BOT } };
+  let levels: Set<number> | null = null;
+  let json = false;
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    switch (flag) {
+      case '--games': opts.games = Math.max(1, Math.floor(parseNumber(flag, args[++i]))); break;
+      case '--levels': levels = parseLevels(args[++i] ?? ''); break;
+      case '--seed': opts.seed = Math.floor(parseNumber(flag, args[++i])); break;
+      case '--max-sec': opts.maxSec = parseNumber(flag, args[++i]); break;
+      case '--aim-error': opts.bot.aimError = parseNumber(flag, args[++i]); break;
+      case '--interval': opts.bot.shotIntervalSec = parseNumber(flag, args[++i]); break;
+      case '--json': json = true; break;
+      default: throw new Error(`Invalid option: ${flag}`);
+    }
+  }
+  return { opts, levels, json };
+}
+
+function main() {
+  if (process.argv.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  const { opts, levels, json } = parseArgs(process.argv.slice(2));
+  const selected = LEVELS.filter(l => !levels || levels.has(l.level));
+  if (!selected.length) throw new Error('Invalid --levels: no such levels');
+  const reports = selected.map(level => {
+    if (!json) process.stderr.write(`Level ${level.level}...\n`);
+    return simulateLevel(level, opts);
+  });
+  console.log(json ? JSON.stringify(reports, null, 2) : formatReportTable(reports));
+}
+
+try {
+  main();
+} catch (err) {
+  console.error((err as Error).message);
+  console.error(USAGE);
+  process.exitCode = 1;
+}